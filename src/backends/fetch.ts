@@ -0,0 +1,126 @@
+import { resolveLoadPath } from '../helpers'
+import { Backend } from '../types/Backend'
+import { FetchBackendOptions } from '../types/FetchBackendOptions'
+import { Localization } from '../types/Localization'
+
+// Response statuses worth retrying: request timeout, too many requests and server errors
+const RETRYABLE_STATUS_PATTERN = /^(408|429|5\d\d)$/
+
+type CachedResponse = {
+	body: unknown
+	etag: string | null
+	lastModified: string | null
+}
+
+/**
+ * Creates a backend fetching localization files over HTTP, from the `loadPath` template
+ * (e.g. `/locales/{{lng}}/{{ns}}.json`) or from `{baseUrl}/{locale}/{namespace}.json`.
+ * Loaded files are revalidated with their ETag and Last-Modified headers, so loading a locale again
+ * only downloads the files that changed. Failed requests (network errors, timeouts, 408, 429 and 5xx responses)
+ * are retried with exponential backoff, missing files (404) are skipped, and the timeout covers reading the body.
+ * Namespaces can't be listed over HTTP, so loading a locale without namespaces needs the `namespaces` option
+ * or a `namespacesPath` manifest (e.g. `/locales/{{lng}}/namespaces.json`) holding a JSON array of namespace names.
+ * Works in browsers, React Native, Node.js 18+ and Bun, or with a custom fetch implementation.
+ *
+ * @param options - The location of the localization files and of the optional namespaces manifest, fetch settings,
+ *   the timeout (10s by default) and the number of retries (2 by default) with the delay before the first retry
+ *   (300ms by default).
+ * @returns The fetch backend.
+ *
+ * @example
+ * const i18n = new I18XS({
+ *   namespaces: ['general', 'checkout'],
+ *   backend: createFetchBackend({ loadPath: '/locales/{{lng}}/{{ns}}.json', retries: 3, timeout: 5000 }),
+ * })
+ * await i18n.ready
+ */
+export function createFetchBackend({
+	baseUrl = '',
+	loadPath = `${baseUrl.replace(/\/+$/, '')}/{{lng}}/{{ns}}.json`,
+	requestInit,
+	fetch = globalThis.fetch,
+	timeout = 10000,
+	retries = 2,
+	retryDelay = 300,
+	namespacesPath,
+}: FetchBackendOptions): Backend {
+	const cache = new Map<string, CachedResponse>()
+
+	const request = async (url: string): Promise<{ response: Response; text: string }> => {
+		const cached = cache.get(url)
+		const headers = new Headers(requestInit?.headers)
+
+		if (cached?.etag) headers.set('If-None-Match', cached.etag)
+		if (cached?.lastModified) headers.set('If-Modified-Since', cached.lastModified)
+
+		const controller = new AbortController()
+		const timer = setTimeout(() => controller.abort(), timeout)
+
+		try {
+			const response = await fetch(url, { ...requestInit, headers, signal: controller.signal })
+
+			// The body is read before clearing the timer, so a body stalling after the headers times out too
+			return { response, text: response.ok ? await response.text() : '' }
+		} finally {
+			clearTimeout(timer)
+		}
+	}
+
+	const fetchJson = async (url: string, attempt: number): Promise<unknown> => {
+		const retry = async (error: unknown): Promise<unknown> => {
+			if (attempt >= retries) throw error
+
+			await new Promise((resolve) => setTimeout(resolve, retryDelay * 2 ** attempt))
+			return fetchJson(url, attempt + 1)
+		}
+
+		let result: { response: Response; text: string }
+		try {
+			result = await request(url)
+		} catch (error) {
+			// Network errors and timeouts
+			return retry(error)
+		}
+
+		const { response, text } = result
+		const cached = cache.get(url)
+		if (response.status === 304 && cached) return cached.body
+
+		// A missing file is not an error, the lookup falls through to the next locale of the chain
+		if (response.status === 404) return undefined
+
+		if (!response.ok) {
+			const error = new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+			if (RETRYABLE_STATUS_PATTERN.test(String(response.status))) return retry(error)
+			throw error
+		}
+
+		const body: unknown = JSON.parse(text)
+		cache.set(url, {
+			body,
+			etag: response.headers.get('ETag'),
+			lastModified: response.headers.get('Last-Modified'),
+		})
+
+		return body
+	}
+
+	const backend: Backend = {
+		async read(locale, namespace) {
+			return (await fetchJson(resolveLoadPath(loadPath, locale, namespace), 0)) as Localization | undefined
+		},
+	}
+
+	if (namespacesPath) {
+		backend.listNamespaces = async (locale) => {
+			const url = resolveLoadPath(namespacesPath, locale, '')
+			const namespaces = await fetchJson(url, 0)
+
+			if (!Array.isArray(namespaces)) throw new Error(`Expected a JSON array of namespaces from ${url}`)
+
+			return namespaces.map(String)
+		}
+	}
+
+	return backend
+}
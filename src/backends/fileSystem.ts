@@ -0,0 +1,130 @@
+import {
+	getLocalizationFilePaths,
+	getParserExtension,
+	normalizeExtension,
+	parseLocalizationFile,
+	resolveLoadPath,
+} from '../helpers'
+import { DEFAULT_PARSERS } from '../parsers'
+import { Backend } from '../types/Backend'
+import { FileSystemBackendOptions } from '../types/FileSystemBackendOptions'
+import { Localization } from '../types/Localization'
+
+type FileSystemPromises = {
+	readFile(path: string, encoding: BufferEncoding): Promise<string>
+	readdir(path: string): Promise<string[]>
+	access(path: string): Promise<void>
+}
+
+// The promise-based fs API, imported on the first read
+let fileSystemPromises: Promise<FileSystemPromises> | undefined
+
+/**
+ * Loads the promise-based fs API lazily with a dynamic import, so the backend module can be bundled for environments
+ * without fs and works in ES modules, where `require` isn't defined.
+ *
+ * @returns The fs promises API.
+ */
+function loadFileSystemPromises(): Promise<FileSystemPromises> {
+	fileSystemPromises ??= import('node:fs/promises') as Promise<FileSystemPromises>
+
+	return fileSystemPromises
+}
+
+/**
+ * Creates a backend reading localization files asynchronously from the traditional structure
+ * (`{localesDir}/{locale}/{namespace}.json`) and the feature-based structure
+ * (`{featuresDir}/{namespace}/locales/{locale}.json`), without blocking the event loop.
+ * Files are found and parsed by extension with the same parsers as preloaded files (JSON, JSON5, YAML, properties,
+ * gettext, ARB and iOS strings), and the `parsers` option adds formats or replaces a built-in parser.
+ * A `loadPath` template (e.g. `./i18n/{{ns}}.{{lng}}.yaml`) can be used instead for other layouts,
+ * namespaces can't be listed from a template so they must be passed to loadLocale() or the `namespaces` option.
+ * Only works in Node.js/Bun environments with file system access.
+ *
+ * @param options - The directories to read the localization files from and the parsers of custom formats.
+ * @returns The file system backend.
+ *
+ * @example
+ * const i18n = new I18XS({
+ *   backend: createFileSystemBackend({ localesDir: `${process.cwd()}/src/locales` }),
+ * })
+ * await i18n.ready
+ */
+export function createFileSystemBackend({
+	localesDir,
+	featuresDir,
+	loadPath,
+	parsers = {},
+}: FileSystemBackendOptions): Backend {
+	const registry = { ...DEFAULT_PARSERS }
+	for (const [extension, parser] of Object.entries(parsers)) {
+		registry[normalizeExtension(extension)] = parser
+	}
+
+	// The file name without its registered extension, undefined when no parser handles the file
+	const getName = (file: string): string | undefined => {
+		const extension = getParserExtension(file, registry)
+		return extension ? file.slice(0, -extension.length) : undefined
+	}
+
+	const exists = async (path: string): Promise<boolean> => {
+		try {
+			await (await loadFileSystemPromises()).access(path)
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	const readFile = async (path: string): Promise<Localization | undefined> => {
+		if (!(await exists(path))) return undefined
+
+		return parseLocalizationFile(path, await (await loadFileSystemPromises()).readFile(path, 'utf8'), registry)
+	}
+
+	// Reads the file of a path without extension, trying the registered extensions in order
+	const readNamespace = async (basePath: string): Promise<Localization | undefined> => {
+		for (const path of getLocalizationFilePaths(basePath, registry)) {
+			if (await exists(path)) return readFile(path)
+		}
+
+		return undefined
+	}
+
+	const listDirectory = async (path: string): Promise<string[]> => {
+		try {
+			return await (await loadFileSystemPromises()).readdir(path)
+		} catch {
+			return []
+		}
+	}
+
+	return {
+		async read(locale, namespace) {
+			if (loadPath) return readFile(resolveLoadPath(loadPath, locale, namespace))
+
+			const localization = localesDir ? await readNamespace(`${localesDir}/${locale}/${namespace}`) : undefined
+
+			if (localization || !featuresDir) return localization
+
+			return readNamespace(`${featuresDir}/${namespace}/locales/${locale}`)
+		},
+
+		async listNamespaces(locale) {
+			const files = localesDir ? await listDirectory(`${localesDir}/${locale}`) : []
+			const namespaces = [...new Set(files.map(getName).filter((name): name is string => name !== undefined))]
+
+			if (featuresDir) {
+				for (const feature of await listDirectory(featuresDir)) {
+					const locales = await listDirectory(`${featuresDir}/${feature}/locales`)
+
+					if (locales.some((file) => getName(file) === locale) && !namespaces.includes(feature)) {
+						namespaces.push(feature)
+					}
+				}
+			}
+
+			return namespaces.sort()
+		},
+	}
+}
@@ -0,0 +1,2 @@
+export { createFetchBackend } from './fetch'
+export { createFileSystemBackend } from './fileSystem'
@@ -1,3 +1,17 @@
+import { Localization } from '../types/Localization'
+import { LocalizationParser } from '../types/LocalizationParser'
+
+// CLDR plural categories recognized as keys of a plural object, in CLDR order
+export const PLURAL_CATEGORIES: Intl.LDMLPluralRule[] = ['zero', 'one', 'two', 'few', 'many', 'other']
+
+// Exact-value keys of a plural object, e.g. "=0" or "=5"
+export const EXACT_VALUE_KEY_PATTERN = /^=\d+(\.\d+)?$/
+
+// Keys that reach the prototype of an object when written with bracket notation
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype']
+
+export { parseMessage, parseNumberSkeleton, parseTags } from './messageFormat'
+
 /**
  * Checks if the current environment is Node.js by verifying the presence of Node-specific globals.
  *
@@ -14,3 +28,216 @@ export function isNodeJS(): boolean {
 		return false
 	}
 }
+
+/**
+ * Escapes the characters with a special meaning in HTML so a value can be safely inserted into markup.
+ *
+ * @param value - The value to escape.
+ * @returns The value with &, <, >, " and ' replaced by their HTML entities.
+ *
+ * @example
+ * escapeHtml('<b>Tom & Jerry</b>') // '&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;'
+ */
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+}
+
+/**
+ * Lists a BCP 47 locale and its parent locales by truncating its subtags from the end.
+ *
+ * @param locale - The locale to truncate.
+ * @returns The locale followed by its parents, from the most to the least specific.
+ *
+ * @example
+ * truncateLocale('zh-Hant-TW') // ['zh-Hant-TW', 'zh-Hant', 'zh']
+ */
+export function truncateLocale(locale: string): string[] {
+	const subtags = locale.split('-').filter(Boolean)
+
+	return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'))
+}
+
+/**
+ * Resolves a localization file path template by replacing its `{{lng}}` and `{{ns}}` placeholders.
+ *
+ * @param template - The path template, e.g. `/locales/{{lng}}/{{ns}}.json`.
+ * @param locale - The locale replacing `{{lng}}`.
+ * @param namespace - The namespace replacing `{{ns}}`.
+ * @returns The resolved path.
+ *
+ * @example
+ * resolveLoadPath('/locales/{{lng}}/{{ns}}.json', 'en', 'general') // '/locales/en/general.json'
+ */
+export function resolveLoadPath(template: string, locale: string, namespace: string): string {
+	return template.replace(/\{\{\s*lng\s*\}\}/g, locale).replace(/\{\{\s*ns\s*\}\}/g, namespace)
+}
+
+/**
+ * Adds the leading dot to a file extension when missing, so parsers can be registered as `toml` or `.toml`.
+ *
+ * @param extension - The file extension.
+ * @returns The extension with its leading dot.
+ *
+ * @example
+ * normalizeExtension('toml') // '.toml'
+ */
+export function normalizeExtension(extension: string): string {
+	return extension.startsWith('.') ? extension : `.${extension}`
+}
+
+/**
+ * Gets the longest registered extension a file name ends with, so `.stringsdict` files aren't read as `.strings`.
+ *
+ * @param file - The file name or path.
+ * @param parsers - The parsers keyed by extension.
+ * @returns The matching extension, or undefined when no parser handles the file.
+ *
+ * @example
+ * getParserExtension('locales/en/general.yaml', { '.json': JSON.parse, '.yaml': parseYaml }) // '.yaml'
+ */
+export function getParserExtension(file: string, parsers: Record<string, LocalizationParser>): string | undefined {
+	return Object.keys(parsers)
+		.filter((extension) => file.endsWith(extension))
+		.sort((a, b) => b.length - a.length)[0]
+}
+
+/**
+ * Lists the paths a localization file without extension can have, one per registered extension in registration
+ * order, to be probed for the first existing file.
+ *
+ * @param basePath - The file path without extension, e.g. `locales/en/general`.
+ * @param parsers - The parsers keyed by extension.
+ * @returns The candidate file paths.
+ *
+ * @example
+ * getLocalizationFilePaths('locales/en/general', { '.json': JSON.parse, '.yaml': parseYaml })
+ * // ['locales/en/general.json', 'locales/en/general.yaml']
+ */
+export function getLocalizationFilePaths(basePath: string, parsers: Record<string, LocalizationParser>): string[] {
+	return Object.keys(parsers).map((extension) => `${basePath}${extension}`)
+}
+
+/**
+ * Parses the content of a localization file with the parser registered for its extension, JSON by default.
+ *
+ * @param filePath - The path of the file.
+ * @param content - The content of the file.
+ * @param parsers - The parsers keyed by extension.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} When the content isn't valid in the format of the file.
+ *
+ * @example
+ * parseLocalizationFile('locales/en/general.json', '{ "hello": "Hello" }', { '.json': JSON.parse }) // { hello: 'Hello' }
+ */
+export function parseLocalizationFile(
+	filePath: string,
+	content: string,
+	parsers: Record<string, LocalizationParser>
+): Localization {
+	const extension = getParserExtension(filePath, parsers)
+
+	return extension ? parsers[extension](content) : JSON.parse(content)
+}
+
+/**
+ * Checks if a key can be written to a localization without reaching the prototype of the object, as keys read from
+ * translation files (`__proto__`, `constructor`, `prototype`) could otherwise pollute `Object.prototype`.
+ *
+ * @param key - The key to check.
+ * @returns True if the key is safe to write, false otherwise.
+ *
+ * @example
+ * isSafeKey('title') // true
+ * isSafeKey('__proto__') // false
+ */
+export function isSafeKey(key: string): boolean {
+	return !UNSAFE_KEYS.includes(key)
+}
+
+/**
+ * Sets a value at a dotted key path of a localization, creating the nested groups on the way.
+ * Paths going through an existing message can't be nested, so the value is set under the whole path instead, and
+ * paths with a segment reaching the prototype of an object (`__proto__`) are skipped.
+ *
+ * @param localization - The localization to update.
+ * @param path - The dotted key path, e.g. `cart.items.one`.
+ * @param value - The message or plural object to set.
+ * @param separator - The separator of the key path segments, defaults to '.'.
+ *
+ * @example
+ * const localization = {}
+ * setLocalizationPath(localization, 'cart.title', 'Cart') // localization is { cart: { title: 'Cart' } }
+ */
+export function setLocalizationPath(
+	localization: Localization,
+	path: string,
+	value: string | Localization,
+	separator: string = '.'
+): void {
+	const segments = path.split(separator)
+	if (!segments.every(isSafeKey)) return
+
+	const parent = segments.slice(0, -1).reduce<Localization | undefined>((target, segment) => {
+		const next = target ? (target[segment] ??= {}) : undefined
+		return typeof next === 'object' ? next : undefined
+	}, localization)
+
+	if (parent) parent[segments[segments.length - 1]] = value
+	else localization[path] = value
+}
+
+/**
+ * Checks if a localization value is a plural object: only CLDR plural categories and exact-value keys (`=0`), next to
+ * marker keys (`__type__`), so groups of messages that happen to have an `other` key aren't mistaken for one.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is a plural object.
+ *
+ * @example
+ * isPluralLocalization({ one: 'One item', other: '{count} items' }) // true
+ * isPluralLocalization({ title: 'Settings', other: 'Other settings' }) // false
+ */
+export function isPluralLocalization(value: string | Localization | undefined): boolean {
+	if (typeof value !== 'object' || value === null) return false
+
+	const keys = Object.keys(value).filter((key) => !key.startsWith('__'))
+	return (
+		keys.length > 0 &&
+		keys.every((key) => PLURAL_CATEGORIES.includes(key as Intl.LDMLPluralRule) || EXACT_VALUE_KEY_PATTERN.test(key))
+	)
+}
+
+/**
+ * Flattens a localization into its messages and plural objects keyed by their key path. Select objects and nested
+ * groups are flattened too, and marker keys (`__type__`, `__selector__`) outside plural objects are left out.
+ *
+ * @param localization - The localization to flatten.
+ * @param separator - The separator of the key path segments, defaults to '.'.
+ * @returns The key paths with their message or plural object, in document order.
+ *
+ * @example
+ * flattenLocalization({ cart: { title: 'Cart', items: { one: 'One item', other: '{count} items' } } })
+ * // [['cart.title', 'Cart'], ['cart.items', { one: 'One item', other: '{count} items' }]]
+ */
+export function flattenLocalization(localization: Localization, separator: string = '.'): [string, string | Localization][] {
+	const entries: [string, string | Localization][] = []
+
+	const visit = (value: string | Localization, path: string): void => {
+		if (typeof value === 'string' || isPluralLocalization(value)) {
+			entries.push([path, value])
+			return
+		}
+
+		for (const [key, child] of Object.entries(value)) {
+			if (!key.startsWith('__')) visit(child, path ? `${path}${separator}${key}` : key)
+		}
+	}
+
+	visit(localization, '')
+	return entries
+}
@@ -0,0 +1,362 @@
+import { MessageNode } from '../types/MessageNode'
+import { MessagePart } from '../types/MessagePart'
+
+/**
+ * Parses an ICU MessageFormat string into a tree of message nodes.
+ * Supports simple arguments (`{name}`), formatted arguments (`{price, number, ::currency/EUR}`),
+ * `plural`, `selectordinal` and `select` arguments with nesting, the `#` shorthand inside plural
+ * branches, apostrophe quoting (`'{'` for a literal brace, `''` for a literal apostrophe) and backslash
+ * escapes (`\{` for a literal brace). Malformed arguments are kept as literal text instead of throwing.
+ * Arguments can use other delimiters than braces (e.g. `{{name}}`), while plural and select branches keep braces.
+ * Simple and formatted arguments can pipe their value through named formatters (`{name|uppercase}`).
+ *
+ * @param message - The message to parse.
+ * @param delimiters - The opening and closing delimiters of arguments, defaults to ['{', '}'].
+ * @returns The parsed message nodes.
+ *
+ * @example
+ * parseMessage('{count, plural, one {# item} other {# items}}')
+ * // [{ type: 'plural', name: 'count', ordinal: false, offset: 0, options: { one: [...], other: [...] } }]
+ *
+ * @example
+ * parseMessage('Hello {{name}}', ['{{', '}}'])
+ * // [{ type: 'text', value: 'Hello ' }, { type: 'argument', name: 'name' }]
+ */
+export function parseMessage(message: string, delimiters: [string, string] = ['{', '}']): MessageNode[] {
+	const [prefix, suffix] = delimiters
+	const escapable = new Set(['{', '}', '\\', '\'', prefix[0], suffix[0]])
+	let position = 0
+
+	const skipWhitespace = (): void => {
+		while (position < message.length && /\s/.test(message[position])) {
+			position++
+		}
+	}
+
+	const readIdentifier = (): string => {
+		const start = position
+		while (
+			position < message.length &&
+			!/[\s,{}|]/.test(message[position]) &&
+			!message.startsWith(suffix, position)
+		) {
+			position++
+		}
+		return message.slice(start, position)
+	}
+
+	const readQuoted = (): string => {
+		// Skip the opening apostrophe and read until the closing one, '' stands for a literal apostrophe
+		let value = ''
+		position++
+		while (position < message.length) {
+			if (message[position] === '\'') {
+				if (message[position + 1] === '\'') {
+					value += '\''
+					position += 2
+					continue
+				}
+				position++
+				break
+			}
+			value += message[position]
+			position++
+		}
+		return value
+	}
+
+	const readStyle = (): string => {
+		const start = position
+		let depth = 0
+		while (position < message.length) {
+			if (depth === 0 && message.startsWith(suffix, position)) break
+
+			const char = message[position]
+			if (char === '{') depth++
+			if (char === '}') depth--
+			position++
+		}
+		return message.slice(start, position).trim()
+	}
+
+	const parseOptions = (inPlural: boolean): Record<string, MessageNode[]> | undefined => {
+		const options: Record<string, MessageNode[]> = {}
+
+		for (;;) {
+			skipWhitespace()
+			if (message.startsWith(suffix, position)) {
+				position += suffix.length
+				return options
+			}
+
+			const selector = readIdentifier()
+			skipWhitespace()
+			if (!selector || message[position] !== '{') return undefined
+
+			position++
+			options[selector] = parseNodes(inPlural, true)
+			if (message[position] !== '}') return undefined
+			position++
+		}
+	}
+
+	const parseArgument = (inPlural: boolean): MessageNode | undefined => {
+		// Skip the opening delimiter
+		position += prefix.length
+		skipWhitespace()
+
+		const name = readIdentifier()
+		skipWhitespace()
+		if (!name) return undefined
+
+		// Value formatters piped after the name, e.g. {name|uppercase|truncate:10}
+		const formatters: string[] = []
+		while (message[position] === '|') {
+			position++
+			skipWhitespace()
+			const formatter = readIdentifier()
+			skipWhitespace()
+			if (!formatter) return undefined
+			formatters.push(formatter)
+		}
+
+		if (message.startsWith(suffix, position)) {
+			position += suffix.length
+			return formatters.length ? { type: 'argument', name, formatters } : { type: 'argument', name }
+		}
+
+		if (message[position] !== ',') return undefined
+
+		position++
+		skipWhitespace()
+		const format = readIdentifier()
+		skipWhitespace()
+		if (!format) return undefined
+
+		if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+			if (message[position] !== ',') return undefined
+
+			position++
+			skipWhitespace()
+
+			let offset = 0
+			if (format !== 'select' && message.startsWith('offset:', position)) {
+				position += 'offset:'.length
+				skipWhitespace()
+				offset = Number(readIdentifier())
+				if (Number.isNaN(offset)) return undefined
+			}
+
+			const options = parseOptions(format !== 'select' || inPlural)
+			if (!options) return undefined
+
+			if (format === 'select') {
+				return { type: 'select', name, options }
+			}
+
+			return { type: 'plural', name, ordinal: format === 'selectordinal', offset, options }
+		}
+
+		if (message.startsWith(suffix, position)) {
+			position += suffix.length
+			return formatters.length ? { type: 'format', name, format, formatters } : { type: 'format', name, format }
+		}
+
+		if (message[position] !== ',') return undefined
+
+		position++
+		const style = readStyle()
+		if (!message.startsWith(suffix, position)) return undefined
+
+		position += suffix.length
+		return formatters.length
+			? { type: 'format', name, format, style, formatters }
+			: { type: 'format', name, format, style }
+	}
+
+	const parseNodes = (inPlural: boolean, nested: boolean): MessageNode[] => {
+		const nodes: MessageNode[] = []
+		let text = ''
+
+		const flushText = (): void => {
+			if (text) {
+				nodes.push({ type: 'text', value: text })
+				text = ''
+			}
+		}
+
+		while (position < message.length) {
+			const char = message[position]
+			const next = message[position + 1]
+
+			if (char === '\'') {
+				if (next === '\'') {
+					text += '\''
+					position += 2
+				} else if (next === '{' || next === '}' || next === prefix[0] || (next === '#' && inPlural)) {
+					text += readQuoted()
+				} else {
+					text += char
+					position++
+				}
+			} else if (char === '\\' && next !== undefined && (escapable.has(next) || (next === '#' && inPlural))) {
+				text += next
+				position += 2
+			} else if (char === '#' && inPlural) {
+				flushText()
+				nodes.push({ type: 'pound' })
+				position++
+			} else if (message.startsWith(prefix, position)) {
+				const start = position
+				const argument = parseArgument(inPlural)
+
+				if (argument) {
+					flushText()
+					nodes.push(argument)
+				} else {
+					// Not a valid argument, keep the delimiter as literal text
+					text += char
+					position = start + 1
+				}
+			} else if (char === '}' && nested) {
+				break
+			} else {
+				text += char
+				position++
+			}
+		}
+
+		flushText()
+		return nodes
+	}
+
+	return parseNodes(false, false)
+}
+
+/**
+ * Parses tag-like markup (`<bold>text</bold>`, `<br/>`) in a formatted message into text and tag parts.
+ * Tags can be nested, tags without a matching closing tag are kept as literal text and attributes are not supported.
+ *
+ * @param text - The text to parse.
+ * @returns The text parts and tag parts, adjacent text parts are merged.
+ *
+ * @example
+ * parseTags('Read the <link>terms</link>')
+ * // ['Read the ', { type: 'tag', name: 'link', children: ['terms'] }]
+ */
+export function parseTags(text: string): MessagePart[] {
+	const tagPattern = /<(\/?)([A-Za-z0-9][\w.-]*)\s*(\/?)>/g
+	const root: MessagePart[] = []
+	const stack: { name: string; source: string; children: MessagePart[] }[] = []
+	let position = 0
+
+	const current = (): MessagePart[] => (stack.length ? stack[stack.length - 1].children : root)
+
+	const append = (target: MessagePart[], ...parts: MessagePart[]): void => {
+		for (const part of parts) {
+			const last = target[target.length - 1]
+			if (typeof part === 'string' && typeof last === 'string') {
+				target[target.length - 1] = last + part
+			} else if (part !== '') {
+				target.push(part)
+			}
+		}
+	}
+
+	// Unclosed tags are flattened back into their parent as literal text
+	const unwind = (): void => {
+		const frame = stack.pop()
+		if (frame) append(current(), frame.source, ...frame.children)
+	}
+
+	for (const match of text.matchAll(tagPattern)) {
+		const [source, closing, name, selfClosing] = match
+		append(current(), text.slice(position, match.index))
+		position = match.index + source.length
+
+		if (selfClosing && !closing) {
+			append(current(), { type: 'tag', name, children: [] })
+		} else if (!closing) {
+			stack.push({ name, source, children: [] })
+		} else if (stack.some((frame) => frame.name === name)) {
+			while (stack[stack.length - 1].name !== name) {
+				unwind()
+			}
+			const frame = stack.pop()
+			if (frame) append(current(), { type: 'tag', name, children: frame.children })
+		} else {
+			append(current(), source)
+		}
+	}
+
+	append(current(), text.slice(position))
+	while (stack.length) {
+		unwind()
+	}
+
+	return root
+}
+
+/**
+ * Converts an ICU number skeleton (the part after `::` in `{price, number, ::currency/EUR}`)
+ * into Intl.NumberFormat options.
+ * Supports the common stems: currency/XXX, percent, unit/XXX, compact-short, compact-long, scientific, engineering,
+ * group-off, integer, fraction precision (.00, .0#), sign-always, sign-never and the unit-width-* options.
+ * Unknown stems are ignored.
+ *
+ * @param skeleton - The number skeleton without the leading `::`.
+ * @returns The matching Intl.NumberFormat options.
+ *
+ * @example
+ * parseNumberSkeleton('currency/EUR .00')
+ * // { style: 'currency', currency: 'EUR', minimumFractionDigits: 2, maximumFractionDigits: 2 }
+ */
+export function parseNumberSkeleton(skeleton: string): Intl.NumberFormatOptions {
+	const options: Intl.NumberFormatOptions = {}
+
+	for (const token of skeleton.trim().split(/\s+/)) {
+		const [stem, option] = token.split('/')
+		const fractionPrecision = /^\.(0*)(#*)$/.exec(stem)
+
+		if (stem === 'currency' && option) {
+			options.style = 'currency'
+			options.currency = option
+		} else if (stem === 'percent' || stem === '%') {
+			options.style = 'percent'
+		} else if (stem === 'unit' && option) {
+			options.style = 'unit'
+			options.unit = option
+		} else if (stem === 'compact-short' || stem === 'K') {
+			options.notation = 'compact'
+			options.compactDisplay = 'short'
+		} else if (stem === 'compact-long' || stem === 'KK') {
+			options.notation = 'compact'
+			options.compactDisplay = 'long'
+		} else if (stem === 'scientific' || stem === 'engineering') {
+			options.notation = stem
+		} else if (stem === 'group-off' || stem === ',_') {
+			options.useGrouping = false
+		} else if (stem === 'integer' || stem === 'precision-integer') {
+			options.maximumFractionDigits = 0
+		} else if (fractionPrecision) {
+			options.minimumFractionDigits = fractionPrecision[1].length
+			options.maximumFractionDigits = fractionPrecision[1].length + fractionPrecision[2].length
+		} else if (stem === 'sign-always' || stem === '+!') {
+			options.signDisplay = 'always'
+		} else if (stem === 'sign-never' || stem === '+_') {
+			options.signDisplay = 'never'
+		} else if (stem === 'unit-width-full-name') {
+			options.currencyDisplay = 'name'
+			options.unitDisplay = 'long'
+		} else if (stem === 'unit-width-iso-code') {
+			options.currencyDisplay = 'code'
+		} else if (stem === 'unit-width-short') {
+			options.unitDisplay = 'short'
+		} else if (stem === 'unit-width-narrow') {
+			options.currencyDisplay = 'narrowSymbol'
+			options.unitDisplay = 'narrow'
+		}
+	}
+
+	return options
+}
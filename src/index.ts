@@ -1,19 +1,74 @@
 import type { PathOrFileDescriptor } from 'fs'
 
-import { isNodeJS } from './helpers'
+import {
+	escapeHtml,
+	getLocalizationFilePaths,
+	getParserExtension,
+	isNodeJS,
+	isPluralLocalization,
+	isSafeKey,
+	normalizeExtension,
+	parseLocalizationFile,
+	parseMessage,
+	parseNumberSkeleton,
+	parseTags,
+	truncateLocale,
+} from './helpers'
+import {
+	DEFAULT_PARSERS,
+	parseCsv,
+	parseMo,
+	parsePo,
+	parseXliff,
+	stringifyCsv,
+	stringifyPo,
+	stringifyXliff,
+} from './parsers'
+import { Backend } from './types/Backend'
 import { Config } from './types/Config'
+import { CsvOptions } from './types/CsvOptions'
+import { Duration } from './types/Duration'
+import { FormatContext } from './types/FormatContext'
+import { GettextExportOptions } from './types/GettextExportOptions'
 import { Localization } from './types/Localization'
+import { LocalizationChangeEvent } from './types/LocalizationChangeEvent'
 import { LocalizationData } from './types/LocalizationData'
+import { LocalizationParser } from './types/LocalizationParser'
 import { LocalizedValue } from './types/LocalizedValue'
+import { MergeConflict } from './types/MergeConflict'
+import { MergeStrategy } from './types/MergeStrategy'
+import { MessageNode } from './types/MessageNode'
+import { MessageOptions } from './types/MessageOptions'
+import { MessagePart } from './types/MessagePart'
+import { RelativeTimeOptions } from './types/RelativeTimeOptions'
+import { TagRenderer } from './types/TagRenderer'
+import { Translator } from './types/Translator'
+import { TrustedHtml } from './types/TrustedHtml'
+import { ValueFormatter } from './types/ValueFormatter'
+import { XliffExportOptions } from './types/XliffExportOptions'
+
+export { createFetchBackend, createFileSystemBackend } from './backends'
+export {
+	parseAndroidStrings,
+	parseAppleStrings,
+	parseArb,
+	parseStringsDict,
+	stringifyAndroidStrings,
+	stringifyAppleStrings,
+	stringifyArb,
+	stringifyStringsDict,
+} from './parsers'
 
 // Conditionally import fs only in Node.js environments (not React Native)
 type ReadFileSyncFn = (path: PathOrFileDescriptor, encoding: BufferEncoding) => string
 type ExistsSyncFn = (path: PathOrFileDescriptor) => boolean
 type ReaddirSyncFn = (path: PathOrFileDescriptor) => string[]
+type WatchFn = (path: string, listener: (eventType: string, filename: string | null) => void) => { close(): void }
 
 let readFileSync: ReadFileSyncFn | undefined
 let existsSync: ExistsSyncFn | undefined
 let readdirSync: ReaddirSyncFn | undefined
+let watchPath: WatchFn | undefined
 
 // Synchronously load fs module for Node.js/Bun environments
 function loadFileSystem(): void {
@@ -25,11 +80,13 @@ function loadFileSystem(): void {
 			readFileSync = fs.readFileSync as ReadFileSyncFn
 			existsSync = fs.existsSync as ExistsSyncFn
 			readdirSync = fs.readdirSync as ReaddirSyncFn
+			watchPath = fs.watch as WatchFn
 		} catch (error) {
 			// fs not available (React Native, browser, etc.)
 			readFileSync = undefined
 			existsSync = undefined
 			readdirSync = undefined
+			watchPath = undefined
 		}
 	}
 }
@@ -37,6 +94,60 @@ function loadFileSystem(): void {
 // Load fs immediately
 loadFileSystem()
 
+// Marker key of a message object: "ordinal" selects plural forms with ordinal rules (1st, 2nd, 3rd),
+// "select" marks a select-variant object (e.g. male/female/other)
+const MESSAGE_TYPE_KEY = '__type__'
+
+// Length in seconds of each unit used by formatRelativeTime
+const RELATIVE_TIME_UNIT_SECONDS: Record<Intl.RelativeTimeFormatUnit, number> = {
+	year: 365 * 24 * 60 * 60,
+	years: 365 * 24 * 60 * 60,
+	quarter: 91 * 24 * 60 * 60,
+	quarters: 91 * 24 * 60 * 60,
+	month: 30 * 24 * 60 * 60,
+	months: 30 * 24 * 60 * 60,
+	week: 7 * 24 * 60 * 60,
+	weeks: 7 * 24 * 60 * 60,
+	day: 24 * 60 * 60,
+	days: 24 * 60 * 60,
+	hour: 60 * 60,
+	hours: 60 * 60,
+	minute: 60,
+	minutes: 60,
+	second: 1,
+	seconds: 1,
+}
+
+// References to other messages inside a message: @:general.app_name, @:(general.app_name) or $t(general.app_name)
+const MESSAGE_LINK_PATTERN = /@:\(([^)]+)\)|@:([\w.-]*\w)|\$t\(([^)]+)\)/g
+
+// Maximum number of nested message links resolved for a single message
+const MAX_LINK_DEPTH = 10
+
+// Value formatters available to every instance, e.g. {name|uppercase} or {bio|truncate:100}
+const DEFAULT_VALUE_FORMATTERS: Record<string, ValueFormatter> = {
+	uppercase: (value, locale) => String(value).toLocaleUpperCase(locale),
+	lowercase: (value, locale) => String(value).toLocaleLowerCase(locale),
+	capitalize: (value, locale) => {
+		const text = String(value)
+		return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1)
+	},
+	trim: (value) => String(value).trim(),
+	truncate: (value, locale, length = '50') => {
+		const text = String(value)
+		return text.length > Number(length) ? `${text.slice(0, Number(length))}…` : text
+	},
+}
+
+// Key of a value marked as trusted HTML, inserted as is when values are HTML-escaped
+const TRUSTED_HTML_KEY = '__html__'
+
+// Private-use placeholder standing for an argument value while the tags of a message are parsed
+const ARGUMENT_PLACEHOLDER_PATTERN = /\uE000(\d+)\uE001/g
+
+// Marker key of a select-variant object overriding the configured selector key for that object
+const SELECTOR_KEY = '__selector__'
+
 export default class I18XS {
 	/**
 	 * The array of supported locales.
@@ -58,6 +169,26 @@ export default class I18XS {
 	 */
 	protected _useFallbackLocale: boolean = false
 
+	/**
+	 * The explicit fallback locales of each locale, tried after its parent locales, e.g. { 'pt-BR': ['pt-PT', 'en'] }.
+	 */
+	protected _fallbackLocales: Record<string, string[]> = {}
+
+	/**
+	 * The resolved lookup chain of each locale, in the order its locales are searched for a message.
+	 */
+	protected _localeChains: Record<string, string[]> = {}
+
+	/**
+	 * The locale that served each identifier looked up since the last locale change, null when none of the chain has it.
+	 */
+	protected _resolvedLocales: Record<string, string | null> = {}
+
+	/**
+	 * Whether the locale serving each looked up identifier is recorded for getResolvedLocales(), also done with showLogs.
+	 */
+	protected _reportResolvedLocales: boolean = false
+
 	/**
 	 * Indicates whether the missing identifier message should be shown.
 	 */
@@ -98,6 +229,126 @@ export default class I18XS {
 	 */
 	protected _preloadLocalizations: boolean = true
 
+	/**
+	 * How preloaded files are merged into the unified localization: deep, shallow or failing on conflicts.
+	 */
+	protected _mergeStrategy: MergeStrategy = 'deep'
+
+	/**
+	 * The parsers of the localization file formats keyed by file extension, e.g. '.yaml'.
+	 */
+	protected _parsers: Record<string, LocalizationParser> = { ...DEFAULT_PARSERS }
+
+	/**
+	 * The file that defined each key path of the unified localization of each locale.
+	 */
+	protected _mergeSources: Record<string, Record<string, string>> = {}
+
+	/**
+	 * The content of each file merged into the unified localization of each locale, in merge order.
+	 */
+	protected _mergedFiles: Record<string, Map<string, Localization>> = {}
+
+	/**
+	 * The keys defined with different values by several preloaded files.
+	 */
+	protected _mergeConflicts: MergeConflict[] = []
+
+	/**
+	 * Whether the first identifier segment strictly selects the file or feature a message is read from.
+	 */
+	protected _strictNamespaces: boolean = false
+
+	/**
+	 * The backend loadLocale() reads localizations from asynchronously.
+	 */
+	protected _backend?: Backend
+
+	/**
+	 * The namespaces loaded by loadLocale() by default, all namespaces listed by the backend when empty.
+	 */
+	protected _namespaces: string[] = []
+
+	/**
+	 * The namespace loads in flight keyed by locale and namespace, shared by concurrent loadLocale() calls.
+	 */
+	protected _pendingLoads: Map<string, Promise<void>> = new Map()
+
+	/**
+	 * Incremented on every configuration, so backend loads started before it are dropped when they finish.
+	 */
+	protected _loadGeneration: number = 0
+
+	/**
+	 * Resolves once the backend localizations of the current locale chain are loaded.
+	 */
+	protected _ready: Promise<void> = Promise.resolve()
+
+	/**
+	 * Whether localization files are watched and reloaded when they change, meant for development.
+	 */
+	protected _watch: boolean = false
+
+	/**
+	 * The delay in milliseconds to wait for a changed file to settle before reloading it.
+	 */
+	protected _watchDebounce: number = 100
+
+	/**
+	 * The open file system watchers of the locale and feature directories.
+	 */
+	protected _watchers: { close(): void }[] = []
+
+	/**
+	 * The pending reloads of changed files, keyed by file path.
+	 */
+	protected _reloadTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+
+	/**
+	 * The listeners notified when a watched localization file is reloaded.
+	 */
+	protected _changeListeners: Set<(event: LocalizationChangeEvent) => void> = new Set()
+
+	/**
+	 * The data key used to choose the variant of a select-variant object.
+	 */
+	protected _selectorKey: string = 'gender'
+
+	/**
+	 * The default time zone used by the date and time helpers, the runtime's time zone when not set.
+	 */
+	protected _timeZone: string | undefined
+
+	/**
+	 * The Intl formatters cached per type, locale and options, in least-recently-used order.
+	 */
+	protected _formatters: Map<string, unknown> = new Map()
+
+	/**
+	 * The maximum number of cached Intl formatters, 0 disables the cache.
+	 */
+	protected _formatterCacheSize: number = 100
+
+	/**
+	 * The opening and closing delimiters of message arguments, e.g. ['{{', '}}'] for i18next-style files.
+	 */
+	protected _interpolationDelimiters: [string, string] = ['{', '}']
+
+	/**
+	 * The named value formatters that placeholders can pipe their value through, e.g. {name|uppercase}.
+	 */
+	protected _valueFormatters: Record<string, ValueFormatter> = { ...DEFAULT_VALUE_FORMATTERS }
+
+	/**
+	 * Whether interpolated values are HTML-escaped by default, values marked with trustHtml() are never escaped.
+	 */
+	protected _escapeValues: boolean = false
+
+	/**
+	 * The parsed ICU messages cached per locale and identifier, keyed by the message source.
+	 */
+	protected _parsedMessages: Record<string, Record<string, MessageNode[]>> = {}
+
 	/**
 	 * Initializes a new instance of the I18XS class.
 	 * @param {Config} config - The configuration options for I18XS.
@@ -127,6 +378,7 @@ export default class I18XS {
 		supportedLocales = ['en'],
 		currentLocale = 'en',
 		fallbackLocale = 'en',
+		fallbackLocales = {},
 		useFallbackLocale = false,
 		showMissingIdentifierMessage = false,
 		missingIdentifierMessage = 'Missing_Localization_Identifier',
@@ -136,6 +388,20 @@ export default class I18XS {
 		showLogs = false,
 		localizations = {},
 		preloadLocalizations = true,
+		parsers = {},
+		mergeStrategy = 'deep',
+		strictNamespaces = false,
+		backend,
+		namespaces = [],
+		watch = false,
+		watchDebounce = 100,
+		selectorKey = 'gender',
+		timeZone,
+		formatterCacheSize = 100,
+		interpolationDelimiters = ['{', '}'],
+		formatters = {},
+		escapeValues = false,
+		reportResolvedLocales = false,
 	}: Config) {
 		this.configure({
 			localesDir,
@@ -143,6 +409,7 @@ export default class I18XS {
 			supportedLocales,
 			currentLocale,
 			fallbackLocale,
+			fallbackLocales,
 			useFallbackLocale,
 			showMissingIdentifierMessage,
 			missingIdentifierMessage,
@@ -150,6 +417,20 @@ export default class I18XS {
 			showLogs,
 			localizations,
 			preloadLocalizations,
+			parsers,
+			mergeStrategy,
+			strictNamespaces,
+			backend,
+			namespaces,
+			watch,
+			watchDebounce,
+			selectorKey,
+			timeZone,
+			formatterCacheSize,
+			interpolationDelimiters,
+			formatters,
+			escapeValues,
+			reportResolvedLocales,
 		})
 	}
 
@@ -203,6 +484,21 @@ export default class I18XS {
 		return this._useFallbackLocale
 	}
 
+	/**
+	 * A promise resolved once the backend localizations of the current locale and its fallbacks are loaded.
+	 * It is replaced when the configuration or the current locale changes, and resolves immediately without a backend.
+	 *
+	 * @returns {Promise<void>} The promise of the pending backend loads.
+	 *
+	 * @example
+	 * const i18xs = new I18XS({ backend: createFileSystemBackend({ localesDir: './locales' }) });
+	 * await i18xs.ready;
+	 * i18xs.t('general.Hello_World');
+	 */
+	get ready(): Promise<void> {
+		return this._ready
+	}
+
 	/**
 	 * Determines if the current locale is left-to-right (LTR).
 	 * @returns {boolean} True if the current locale is LTR, false otherwise.
@@ -270,6 +566,7 @@ export default class I18XS {
 		supportedLocales = ['en'],
 		currentLocale = 'en',
 		fallbackLocale = 'en',
+		fallbackLocales = {},
 		useFallbackLocale = false,
 		showMissingIdentifierMessage = false,
 		missingIdentifierMessage = 'Missing_Localization_Identifier',
@@ -277,12 +574,29 @@ export default class I18XS {
 		showLogs = false,
 		localizations = {},
 		preloadLocalizations = true,
+		parsers = {},
+		mergeStrategy = 'deep',
+		strictNamespaces = false,
+		backend,
+		namespaces = [],
+		watch = false,
+		watchDebounce = 100,
+		selectorKey = 'gender',
+		timeZone,
+		formatterCacheSize = 100,
+		interpolationDelimiters = ['{', '}'],
+		formatters = {},
+		escapeValues = false,
+		reportResolvedLocales = false,
 	}: Config): I18XS {
 		this._localesDir = localesDir
 		this._featuresDir = featuresDir
 		this._supportedLocales = supportedLocales
 		this._currentLocale = currentLocale
 		this._fallbackLocale = fallbackLocale
+		this._fallbackLocales = fallbackLocales
+		this._localeChains = {}
+		this._resolvedLocales = {}
 		this._useFallbackLocale = useFallbackLocale
 		this._showMissingIdentifierMessage = showMissingIdentifierMessage
 		this._missingIdentifierMessage = missingIdentifierMessage
@@ -290,15 +604,191 @@ export default class I18XS {
 		this._showLogs = showLogs
 		this._localizations = localizations
 		this._preloadLocalizations = preloadLocalizations
+		this._parsers = { ...DEFAULT_PARSERS }
+		Object.entries(parsers).forEach(([extension, parser]) => this.setParser(extension, parser))
+		this._mergeStrategy = mergeStrategy
+		this._strictNamespaces = strictNamespaces
+		this._backend = backend
+		this._namespaces = namespaces
+		this._pendingLoads.clear()
+		this._loadGeneration++
+		this._watch = watch
+		this._watchDebounce = watchDebounce
+		this._selectorKey = selectorKey
+		this._timeZone = timeZone
+		this._formatterCacheSize = formatterCacheSize
+		this._interpolationDelimiters = interpolationDelimiters
+		this._valueFormatters = { ...DEFAULT_VALUE_FORMATTERS, ...formatters }
+		this._escapeValues = escapeValues
+		this._reportResolvedLocales = reportResolvedLocales
+		this._formatters.clear()
+		this._parsedMessages = {}
 
 		// Preload all localizations if enabled
 		if (this._preloadLocalizations) {
 			this.preloadAllLocalizations()
 		}
 
+		// Load the current locale chain from the backend, awaitable with the ready promise
+		if (this._backend) {
+			this._ready = this.loadLocaleChain()
+		}
+
+		this.stopWatching()
+		if (this._watch) {
+			this.startWatching()
+		}
+
+		return this
+	}
+
+	/**
+	 * Registers a listener called after a watched localization file changed and was reloaded.
+	 *
+	 * @param listener - The listener receiving the locale, namespace and path of the reloaded file.
+	 * @returns A function removing the listener.
+	 *
+	 * @example
+	 * const i18n = new I18XS({ localesDir: './locales', watch: true });
+	 * const unsubscribe = i18n.onLocalizationChange(({ locale, namespace }) => rerender());
+	 */
+	onLocalizationChange(listener: (event: LocalizationChangeEvent) => void): () => void {
+		this._changeListeners.add(listener)
+
+		return () => {
+			this._changeListeners.delete(listener)
+		}
+	}
+
+	/**
+	 * Closes the file watchers opened by the `watch` option and cancels the pending reloads.
+	 *
+	 * @returns {I18XS} - The updated I18XS instance.
+	 *
+	 * @example
+	 * const i18n = new I18XS({ localesDir: './locales', watch: true });
+	 * process.on('SIGINT', () => i18n.stopWatching());
+	 */
+	stopWatching(): I18XS {
+		this._watchers.forEach((watcher) => watcher.close())
+		this._watchers = []
+		this._reloadTimers.forEach((timer) => clearTimeout(timer))
+		this._reloadTimers.clear()
+
 		return this
 	}
 
+	/**
+	 * Watches the locale directories (locales/{locale}) and the feature locale directories
+	 * (features/{feature}/locales) of the supported locales, reloading changed files after the debounce delay.
+	 */
+	private startWatching(): void {
+		if (!watchPath || !existsSync || !readdirSync) {
+			if (this._showLogs) {
+				console.warn('File watching is not available in this environment (React Native/Browser)')
+			}
+			return
+		}
+
+		const directories: { path: string; resolve: (name: string) => { locale: string; namespace: string } }[] = []
+
+		if (this._localesDir) {
+			for (const locale of this._supportedLocales) {
+				directories.push({
+					path: `${this._localesDir}/${locale}`,
+					resolve: (name) => ({ locale, namespace: name }),
+				})
+			}
+		}
+
+		if (this._featuresDir && existsSync(this._featuresDir)) {
+			for (const feature of readdirSync(this._featuresDir)) {
+				directories.push({
+					path: `${this._featuresDir}/${feature}/locales`,
+					resolve: (name) => ({ locale: name, namespace: feature }),
+				})
+			}
+		}
+
+		for (const { path, resolve } of directories) {
+			if (!existsSync(path)) continue
+
+			try {
+				const watcher = watchPath(path, (eventType, file) => {
+					const extension = file ? getParserExtension(file, this._parsers) : undefined
+					if (!file || !extension) return
+
+					const { locale, namespace } = resolve(file.slice(0, -extension.length))
+					if (this._supportedLocales.includes(locale)) {
+						this.scheduleReload({ locale, namespace, filePath: `${path}/${file}` })
+					}
+				})
+				this._watchers.push(watcher)
+			} catch (error) {
+				if (this._showLogs) {
+					console.error({ message: 'Failed to watch localization directory', path, error })
+				}
+			}
+		}
+	}
+
+	/**
+	 * Reloads a changed file once it stopped changing for the debounce delay, as editors often write in several steps.
+	 * @param event - The locale, namespace and path of the changed file
+	 */
+	private scheduleReload(event: LocalizationChangeEvent): void {
+		clearTimeout(this._reloadTimers.get(event.filePath))
+
+		this._reloadTimers.set(
+			event.filePath,
+			setTimeout(() => {
+				this._reloadTimers.delete(event.filePath)
+				this.reloadLocalizationFile(event)
+			}, this._watchDebounce)
+		)
+	}
+
+	/**
+	 * Re-reads a changed localization file and re-merges it into the merged localization of its locale, keeping the
+	 * messages of the other files, the backend and the imports. Files that can't be parsed (e.g. partially written) are
+	 * skipped and keep their previous content.
+	 * @param event - The locale, namespace and path of the changed file
+	 */
+	private reloadLocalizationFile(event: LocalizationChangeEvent): void {
+		const { locale, namespace, filePath } = event
+
+		if (!readFileSync || !existsSync) return
+
+		let localization: Localization | undefined
+
+		if (existsSync(filePath)) {
+			try {
+				localization = parseLocalizationFile(filePath, readFileSync(filePath, 'utf8'), this._parsers)
+			} catch (error) {
+				if (this._showLogs) {
+					console.error({ message: 'Skipped reloading invalid localization file', filePath, error })
+				}
+				return
+			}
+			this.cacheLocalization(locale, namespace, localization)
+		} else if (this._localizations[locale]) {
+			delete this._localizations[locale][namespace]
+		}
+
+		if (this._preloadLocalizations) {
+			this.unmergeLocalization(locale, filePath)
+			if (localization) this.mergeLocalization(locale, filePath, localization)
+		}
+
+		this._resolvedLocales = {}
+
+		if (this._showLogs) {
+			console.debug({ message: 'Reloaded localization file', ...event })
+		}
+
+		this._changeListeners.forEach((listener) => listener(event))
+	}
+
 	/**
 	 * Splits the identifier into a file name and an array of keys.
 	 * @param identifier - The identifier to split.
@@ -363,13 +853,17 @@ export default class I18XS {
 			return
 		}
 
+		this._mergeSources = {}
+		this._mergedFiles = {}
+		this._mergeConflicts = []
+
 		try {
-			// Preload from traditional structure (locales/{locale}/{file}.json)
+			// Preload from traditional structure (locales/{locale}/{file}.json or any registered format)
 			if (this._localesDir && existsSync(this._localesDir)) {
 				this.preloadFromTraditionalStructure()
 			}
 
-			// Preload from feature-based structure (features/{feature}/locales/{locale}.json)
+			// Preload from feature-based structure (features/{feature}/locales/{locale}.json or any registered format)
 			if (this._featuresDir && existsSync(this._featuresDir)) {
 				this.preloadFromFeatureStructure()
 			}
@@ -386,89 +880,349 @@ export default class I18XS {
 				console.error({ message: 'Failed to preload localizations', error })
 			}
 		}
+
+		if (this._mergeStrategy === 'error' && this._mergeConflicts.length) {
+			const [conflict] = this._mergeConflicts
+			throw new Error(
+				`Conflicting localization key "${conflict.path}" for locale ${conflict.locale} in ${conflict.winner} and ${conflict.loser}`
+			)
+		}
 	}
 
 	/**
-	 * Preloads all localization files from traditional structure: locales/{locale}/{file}.json
+	 * Loads the localizations of a locale asynchronously from the configured backend, caching each namespace
+	 * like a file (and merging it when preloading is enabled). Loads of the same locale and namespace already
+	 * in flight are shared instead of read again, and failed namespaces are logged and skipped. Backends that can't
+	 * list namespaces (the fetch backend without a `namespacesPath` manifest) need the namespaces to load, otherwise
+	 * nothing is loaded and an error is logged.
+	 *
+	 * @param locale - The locale to load.
+	 * @param namespaces - The namespaces to load, defaults to the `namespaces` option or every namespace the backend lists.
+	 * @returns A promise resolved once the namespaces are loaded.
+	 *
+	 * @example
+	 * const i18n = new I18XS({ backend: createFetchBackend({ baseUrl: '/locales' }), namespaces: ['general'] });
+	 * await i18n.loadLocale('ar', ['general', 'checkout']);
+	 * i18n.changeCurrentLocale('ar');
 	 */
-	private preloadFromTraditionalStructure(): void {
-		if (!readdirSync || !existsSync) return
+	async loadLocale(locale: string, namespaces?: string[]): Promise<void> {
+		const backend = this._backend
 
-		for (const locale of this._supportedLocales) {
-			const localePath = `${this._localesDir}/${locale}`
+		if (!backend) {
+			if (this._showLogs) {
+				console.warn({ message: 'No backend configured to load the locale', locale })
+			}
+			return
+		}
 
-			if (!existsSync(localePath)) {
-				continue
+		const generation = this._loadGeneration
+
+		try {
+			if (!namespaces && !this._namespaces.length && !backend.listNamespaces) {
+				throw new Error('The backend can\'t list namespaces, pass them to loadLocale() or set the namespaces option')
 			}
 
-			try {
-				const files = readdirSync(localePath)
+			// The namespaces are only listed when none are passed, so a failing listing doesn't block explicit loads
+			const localeNamespaces =
+				namespaces ?? (this._namespaces.length ? this._namespaces : (await backend.listNamespaces?.(locale)) ?? [])
 
-				// Initialize merged localization for this locale if not exists
-				if (!this._localizations[locale]) {
-					this._localizations[locale] = {}
-				}
+			if (generation !== this._loadGeneration) return
 
-				// Create a single merged object for all files
-				if (!this._localizations[locale]['__merged__']) {
-					this._localizations[locale]['__merged__'] = {}
-				}
+			await Promise.all(localeNamespaces.map((namespace) => this.loadNamespace(backend, locale, namespace)))
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to load locale from backend', locale, error })
+			}
+		}
+	}
 
-				for (const file of files) {
-					if (file.endsWith('.json')) {
-						const fileName = file.replace('.json', '')
-						const filePath = `${localePath}/${file}`
-						const localization = this.loadFileContent(filePath)
+	/**
+	 * Loads a namespace of a locale from the backend, sharing the load already in flight for the same namespace.
+	 * @param backend - The backend to read from
+	 * @param locale - The locale to load
+	 * @param namespace - The namespace to load
+	 * @returns A promise resolved once the namespace is cached, or skipped when missing or failed
+	 */
+	private loadNamespace(backend: Backend, locale: string, namespace: string): Promise<void> {
+		const key = `${locale}:${namespace}`
+		const pendingLoad = this._pendingLoads.get(key)
 
-						if (localization) {
-							// Cache with original file name for backward compatibility
-							this.cacheLocalization(locale, fileName, localization)
+		if (pendingLoad) return pendingLoad
 
-							// Merge into the unified localization object (last-load-wins)
-							this._localizations[locale]['__merged__'] = {
-								...this._localizations[locale]['__merged__'],
-								...localization,
-							}
+		const generation = this._loadGeneration
+		const load: Promise<void> = backend
+			.read(locale, namespace)
+			.then((localization) => {
+				// Loads started before a reconfiguration belong to the previous backend and localizations
+				if (!localization || generation !== this._loadGeneration) return
 
-							if (this._showLogs) {
-								console.debug({ message: 'Merged localization', locale, fileName })
-							}
-						}
-					}
+				this.cacheLocalization(locale, namespace, localization)
+
+				if (this._preloadLocalizations) {
+					this.mergeLocalization(locale, namespace, localization)
 				}
-			} catch (error) {
+			})
+			.catch((error) => {
 				if (this._showLogs) {
-					console.error({ message: 'Failed to preload from traditional structure', locale, error })
+					console.error({ message: 'Failed to load localization from backend', locale, namespace, error })
 				}
-			}
-		}
+			})
+			.finally(() => {
+				if (this._pendingLoads.get(key) === load) this._pendingLoads.delete(key)
+			})
+
+		this._pendingLoads.set(key, load)
+		return load
 	}
 
 	/**
-	 * Preloads all localization files from feature-based structure: features/{feature}/locales/{locale}.json
+	 * Loads every locale of the current locale chain from the backend.
+	 * @returns A promise resolved once all locales of the chain are loaded
 	 */
-	private preloadFromFeatureStructure(): void {
-		if (!readdirSync || !existsSync) return
-
-		try {
-			const features = readdirSync(this._featuresDir)
+	private async loadLocaleChain(): Promise<void> {
+		await Promise.all(this.getLocaleChain().map((locale) => this.loadLocale(locale)))
+	}
 
-			for (const feature of features) {
-				const featurePath = `${this._featuresDir}/${feature}`
-				const localesPath = `${featurePath}/locales`
+	/**
+	 * Gets the keys defined with different values by several preloaded files, with the file whose value won.
+	 *
+	 * @returns The merge conflicts found while preloading, in load order.
+	 *
+	 * @example
+	 * const i18n = new I18XS({ localesDir: './locales', mergeStrategy: 'deep' });
+	 * i18n.getMergeConflicts();
+	 * // [{ locale: 'en', path: 'errors.required', winner: './locales/en/forms.json', loser: './locales/en/common.json' }]
+	 */
+	getMergeConflicts(): MergeConflict[] {
+		return [...this._mergeConflicts]
+	}
 
-				if (!existsSync(localesPath)) {
-					continue
-				}
+	/**
+	 * Merges a preloaded file into the unified localization of a locale using the configured merge strategy.
+	 * The deep and error strategies merge nested groups recursively while plural and select objects are replaced
+	 * as a whole, the shallow strategy replaces top-level keys. Keys redefined with a different value are recorded
+	 * as conflicts, and the last loaded file wins.
+	 * @param locale - The locale of the file
+	 * @param source - The path of the file, used in the conflict report
+	 * @param localization - The content of the file
+	 */
+	private mergeLocalization(locale: string, source: string, localization: Localization): void {
+		const files = (this._mergedFiles[locale] ??= new Map())
 
-				for (const locale of this._supportedLocales) {
-					const localeFilePath = `${localesPath}/${locale}.json`
+		// A merged again file moves to the end of the merge order, as it won over the files merged before it
+		files.delete(source)
+		files.set(source, localization)
 
-					if (existsSync(localeFilePath)) {
-						const localization = this.loadFileContent(localeFilePath)
+		this.mergeIntoLocale(locale, source, localization)
+	}
 
-						if (localization) {
-							// Cache with original feature name for backward compatibility
+	/**
+	 * Merges the content of a file into the unified localization of a locale, recording the file of each key path.
+	 * @param locale - The locale of the file
+	 * @param source - The path of the file, used in the conflict report
+	 * @param localization - The content of the file, or the part of it to merge
+	 */
+	private mergeIntoLocale(locale: string, source: string, localization: Localization): void {
+		const sources = (this._mergeSources[locale] ??= {})
+
+		const merge = (target: Localization, values: Localization, path: string): void => {
+			for (const [key, value] of Object.entries(values)) {
+				const keyPath = path ? `${path}.${key}` : key
+				const current = target[key]
+				const deep = this._mergeStrategy !== 'shallow' && this.isNestedLocalization(value)
+				const mergeable = deep && this.isNestedLocalization(current)
+
+				if (current !== undefined && !mergeable && JSON.stringify(current) !== JSON.stringify(value)) {
+					const conflict = { locale, path: keyPath, winner: source, loser: sources[keyPath] }
+					this._mergeConflicts.push(conflict)
+
+					if (this._showLogs) {
+						console.warn({ message: 'Conflicting localization key', ...conflict })
+					}
+				}
+
+				if (!deep) {
+					target[key] = value
+					sources[keyPath] = source
+					continue
+				}
+
+				// Nested groups are copied so merging never mutates the cached file localization
+				if (!mergeable) {
+					target[key] = {}
+					sources[keyPath] = source
+				}
+				merge(target[key] as Localization, value as Localization, keyPath)
+			}
+		}
+
+		merge((this._localizations[locale]['__merged__'] ??= {}), localization, '')
+	}
+
+	/**
+	 * Removes the messages a file merged into the merged localization of a locale, along with its conflicts, so the
+	 * file can be merged again. Groups left empty are removed, while deep merged groups still holding messages of
+	 * other sources (other files, the backend or the imports) are kept. Removed keys also defined by other merged
+	 * files are restored from the last of them, as it won over the others.
+	 * @param locale - The locale of the file
+	 * @param source - The path of the file
+	 */
+	private unmergeLocalization(locale: string, source: string): void {
+		const sources = this._mergeSources[locale] ?? {}
+		const paths = Object.keys(sources).filter((path) => sources[path] === source)
+		const merged = this._localizations[locale]?.['__merged__'] as Localization | undefined
+		const shallow = this._mergeStrategy === 'shallow'
+		const files = this._mergedFiles[locale]
+		const removed: string[] = []
+
+		files?.delete(source)
+
+		// Deepest paths first so emptied groups can be removed once their messages are gone
+		for (const path of paths.sort((a, b) => b.split('.').length - a.split('.').length)) {
+			const keys = path.split('.')
+			const parent = keys
+				.slice(0, -1)
+				.reduce<Localization | undefined>(
+					(target, key) => (typeof target?.[key] === 'object' ? (target[key] as Localization) : undefined),
+					merged
+				)
+			const key = keys[keys.length - 1]
+			const value = parent?.[key]
+
+			if (parent && (shallow || !this.isNestedLocalization(value) || !Object.keys(value as Localization).length)) {
+				delete parent[key]
+				removed.push(path)
+			}
+			delete sources[path]
+		}
+
+		this._mergeConflicts = this._mergeConflicts.filter(
+			(conflict) => conflict.locale !== locale || (conflict.winner !== source && conflict.loser !== source)
+		)
+
+		// Shallowest paths first so a restored group is not merged again over its restored messages
+		for (const path of removed.reverse()) {
+			const keys = path.split('.')
+			const restored = [...(files ?? [])]
+				.reverse()
+				.map(([file, localization]) => ({ file, value: this.getPathValue(localization, keys) }))
+				.find(({ value }) => value !== undefined)
+
+			if (!restored || this.getPathValue(merged, keys) !== undefined) continue
+
+			const partial = keys.reduceRight<unknown>((value, key) => ({ [key]: value }), restored.value)
+			this.mergeIntoLocale(locale, restored.file, partial as Localization)
+		}
+	}
+
+	/**
+	 * Gets the value at a key path of a localization, only stepping into own properties.
+	 * @param localization - The localization to read
+	 * @param keys - The keys of the path
+	 * @returns The value at the path, or undefined if the path does not exist
+	 */
+	private getPathValue(localization: Localization | undefined, keys: string[]): unknown {
+		return keys.reduce<unknown>(
+			(target, key) =>
+				typeof target === 'object' && target !== null && Object.hasOwn(target, key)
+					? (target as Localization)[key]
+					: undefined,
+			localization
+		)
+	}
+
+	/**
+	 * Checks if a localization value is a nested group of messages rather than a message or a plural/select object.
+	 * @param value - The localization value to check
+	 * @returns True if the value is a nested group of messages, false otherwise
+	 */
+	private isNestedLocalization(value: string | Localization | undefined): boolean {
+		return typeof value === 'object' && !isPluralLocalization(value) && !this.isSelectObject(value)
+	}
+
+	/**
+	 * Preloads all localization files from traditional structure: locales/{locale}/{file}.json
+	 * @param locales - The locales to preload, defaults to the supported locales
+	 */
+	private preloadFromTraditionalStructure(locales: string[] = this._supportedLocales): void {
+		if (!readdirSync || !existsSync) return
+
+		for (const locale of locales) {
+			const localePath = `${this._localesDir}/${locale}`
+
+			if (!existsSync(localePath)) {
+				continue
+			}
+
+			try {
+				// Sorted so the last-load-wins order of conflicting keys is the same on every file system
+				const files = readdirSync(localePath).sort()
+
+				// Initialize merged localization for this locale if not exists
+				if (!this._localizations[locale]) {
+					this._localizations[locale] = {}
+				}
+
+				// Create a single merged object for all files
+				if (!this._localizations[locale]['__merged__']) {
+					this._localizations[locale]['__merged__'] = {}
+				}
+
+				for (const file of files) {
+					const extension = getParserExtension(file, this._parsers)
+
+					if (extension) {
+						const fileName = file.slice(0, -extension.length)
+						const filePath = `${localePath}/${file}`
+						const localization = this.loadFileContent(filePath)
+
+						if (localization) {
+							// Cache with original file name for backward compatibility
+							this.cacheLocalization(locale, fileName, localization)
+
+							// Merge into the unified localization object (last-load-wins)
+							this.mergeLocalization(locale, filePath, localization)
+
+							if (this._showLogs) {
+								console.debug({ message: 'Merged localization', locale, fileName })
+							}
+						}
+					}
+				}
+			} catch (error) {
+				if (this._showLogs) {
+					console.error({ message: 'Failed to preload from traditional structure', locale, error })
+				}
+			}
+		}
+	}
+
+	/**
+	 * Preloads all localization files from feature-based structure: features/{feature}/locales/{locale}.json
+	 * @param locales - The locales to preload, defaults to the supported locales
+	 */
+	private preloadFromFeatureStructure(locales: string[] = this._supportedLocales): void {
+		if (!readdirSync || !existsSync) return
+
+		try {
+			const features = readdirSync(this._featuresDir).sort()
+
+			for (const feature of features) {
+				const featurePath = `${this._featuresDir}/${feature}`
+				const localesPath = `${featurePath}/locales`
+
+				if (!existsSync(localesPath)) {
+					continue
+				}
+
+				for (const locale of locales) {
+					const localeFilePath = this.findLocalizationFile(`${localesPath}/${locale}`)
+
+					if (localeFilePath) {
+						const localization = this.loadFileContent(localeFilePath)
+
+						if (localization) {
+							// Cache with original feature name for backward compatibility
 							this.cacheLocalization(locale, feature, localization)
 
 							// Initialize merged localization for this locale if not exists
@@ -482,10 +1236,7 @@ export default class I18XS {
 							}
 
 							// Merge into the unified localization object (last-load-wins)
-							this._localizations[locale]['__merged__'] = {
-								...this._localizations[locale]['__merged__'],
-								...localization,
-							}
+							this.mergeLocalization(locale, localeFilePath, localization)
 
 							if (this._showLogs) {
 								console.debug({ message: 'Merged localization', locale, feature })
@@ -501,6 +1252,47 @@ export default class I18XS {
 		}
 	}
 
+	/**
+	 * Registers a parser for a localization file format, used by the preloading, lazy loading and watching of files
+	 * with that extension. Registering an extension again replaces its parser, e.g. to use a full YAML library.
+	 *
+	 * @param extension - The file extension, with or without the leading dot (e.g. 'toml' or '.toml')
+	 * @param parser - The function parsing the file content into a localization object
+	 * @returns {I18XS} - The updated I18XS instance.
+	 *
+	 * @example
+	 * import { parse } from 'smol-toml'
+	 *
+	 * i18xs.registerParser('toml', (content) => parse(content)).preloadAllLocalizations()
+	 */
+	registerParser(extension: string, parser: LocalizationParser): I18XS {
+		this.setParser(extension, parser)
+
+		if (this._showLogs) {
+			console.debug(`Registered localization parser for ${extension}`)
+		}
+
+		return this
+	}
+
+	/**
+	 * Sets the parser of a file extension, adding the leading dot when missing.
+	 * @param extension - The file extension
+	 * @param parser - The parser of the file format
+	 */
+	private setParser(extension: string, parser: LocalizationParser): void {
+		this._parsers[normalizeExtension(extension)] = parser
+	}
+
+	/**
+	 * Finds the localization file of a path without extension, trying the registered extensions in order.
+	 * @param basePath - The file path without extension, e.g. locales/en/general
+	 * @returns The path of the first existing file, or undefined when there is none
+	 */
+	private findLocalizationFile(basePath: string): string | undefined {
+		return getLocalizationFilePaths(basePath, this._parsers).find((path) => existsSync?.(path))
+	}
+
 	/**
 	 * Loads the content of a localization file synchronously.
 	 * Uses Node.js/Bun's fs module for synchronous file operations.
@@ -521,9 +1313,9 @@ export default class I18XS {
 				return undefined
 			}
 
-			// Read and parse JSON synchronously
+			// Read and parse the file synchronously with the parser of its format
 			const content = readFileSync(filePath, 'utf8')
-			const localization = JSON.parse(content)
+			const localization = parseLocalizationFile(filePath, content, this._parsers)
 
 			if (this._showLogs) {
 				console.debug({ message: 'Loaded file content', filePath, localization })
@@ -532,7 +1324,7 @@ export default class I18XS {
 			return localization
 		} catch (error) {
 			if (this._showLogs) {
-				console.error({ message: 'Failed to load localization file content', error })
+				console.error({ message: 'Failed to load localization file content', filePath, error })
 			}
 			return undefined
 		}
@@ -547,22 +1339,19 @@ export default class I18XS {
 	 *
 	 * Note: File system operations only work in Node.js/Bun.
 	 * For React Native/Browser, use in-memory localizations.
+	 *
+	 * @param fileName - The name of the localization file
+	 * @param locale - The locale to load the file for, only this locale is tried (see getLocaleChain for fallbacks)
 	 */
-	private loadLocalization(fileName: string): Localization | undefined {
-		// If preloading is enabled, always try to use the merged localization first
-		if (this._preloadLocalizations) {
-			if (this._localizations[this._currentLocale]?.['__merged__']) {
-				return this._localizations[this._currentLocale]['__merged__']
-			} else if (this._localizations[this._fallbackLocale]?.['__merged__']) {
-				return this._localizations[this._fallbackLocale]['__merged__']
-			}
+	private loadLocalization(fileName: string, locale: string = this._currentLocale): Localization | undefined {
+		// If preloading is enabled, always try to use the merged localization first, unless namespaces are strict
+		if (this._preloadLocalizations && !this._strictNamespaces && this._localizations[locale]?.['__merged__']) {
+			return this._localizations[locale]['__merged__']
 		}
 
 		// Fall back to individual file loading (backward compatibility for lazy loading)
-		if (this._localizations[this._currentLocale]?.[fileName]) {
-			return this._localizations[this._currentLocale][fileName]
-		} else if (this._localizations[this._fallbackLocale]?.[fileName]) {
-			return this._localizations[this._fallbackLocale][fileName]
+		if (this._localizations[locale]?.[fileName]) {
+			return this._localizations[locale][fileName]
 		}
 
 		// Skip file system if fs is not available (React Native, browser, etc.)
@@ -580,17 +1369,17 @@ export default class I18XS {
 			// Performance optimization: Only check configured directories
 			if (hasLocalesDir && !hasFeaturesDir) {
 				// Only traditional structure configured - check only that
-				return this.loadFromTraditionalStructure(fileName)
+				return this.loadFromTraditionalStructure(fileName, locale)
 			} else if (hasFeaturesDir && !hasLocalesDir) {
 				// Only feature-based structure configured - check only that
-				return this.loadFromFeatureStructure(fileName)
+				return this.loadFromFeatureStructure(fileName, locale)
 			} else if (hasLocalesDir && hasFeaturesDir) {
 				// Both configured - try traditional first, then feature-based
-				const localization = this.loadFromTraditionalStructure(fileName)
+				const localization = this.loadFromTraditionalStructure(fileName, locale)
 				if (localization) {
 					return localization
 				}
-				return this.loadFromFeatureStructure(fileName)
+				return this.loadFromFeatureStructure(fileName, locale)
 			}
 
 			if (this._showLogs) {
@@ -607,23 +1396,29 @@ export default class I18XS {
 	}
 
 	/**
-	 * Loads from traditional structure: locales/{locale}/{file}.json
+	 * Loads from traditional structure: locales/{locale}/{file}.json or any registered format
 	 */
-	private loadFromTraditionalStructure(fileName: string): Localization | undefined {
-		const filePath = `${this._localesDir}/${this._currentLocale}/${fileName}.json`
-		const fallbackFilePath = `${this._localesDir}/${this._fallbackLocale}/${fileName}.json`
-
-		let localization = this.loadFileContent(filePath)
+	private loadFromTraditionalStructure(fileName: string, locale: string): Localization | undefined {
+		const filePath = this.findLocalizationFile(`${this._localesDir}/${locale}/${fileName}`)
+		const localization = filePath ? this.loadFileContent(filePath) : undefined
 		if (localization) {
 			// Cache the loaded localization
-			this.cacheLocalization(this._currentLocale, fileName, localization)
+			this.cacheLocalization(locale, fileName, localization)
 			return localization
 		}
 
-		localization = this.loadFileContent(fallbackFilePath)
+		return undefined
+	}
+
+	/**
+	 * Loads from feature-based structure: features/{feature}/locales/{locale}.json or any registered format
+	 */
+	private loadFromFeatureStructure(fileName: string, locale: string): Localization | undefined {
+		const filePath = this.findLocalizationFile(`${this._featuresDir}/${fileName}/locales/${locale}`)
+		const localization = filePath ? this.loadFileContent(filePath) : undefined
 		if (localization) {
 			// Cache the loaded localization
-			this.cacheLocalization(this._fallbackLocale, fileName, localization)
+			this.cacheLocalization(locale, fileName, localization)
 			return localization
 		}
 
@@ -631,27 +1426,210 @@ export default class I18XS {
 	}
 
 	/**
-	 * Loads from feature-based structure: features/{feature}/locales/{locale}.json
+	 * Imports a gettext catalog into a locale, caching it as a namespace (and merging it when preloading is enabled).
+	 * Entries with a msgctxt use it as their key path, plural entries become plural objects following the CLDR
+	 * categories of the locale, and fuzzy or untranslated entries are skipped.
+	 *
+	 * @param locale - The locale of the catalog.
+	 * @param catalog - The content of a `.po` file, or the binary content of a `.mo` file.
+	 * @param namespace - The namespace to cache the catalog as, defaults to 'messages'.
+	 * @returns {I18XS} - The updated I18XS instance.
+	 *
+	 * @example
+	 * i18xs.importGettext('fr', readFileSync('./po/fr.po', 'utf8'))
+	 * i18xs.importGettext('de', readFileSync('./mo/de.mo'))
 	 */
-	private loadFromFeatureStructure(fileName: string): Localization | undefined {
-		const featureFilePath = `${this._featuresDir}/${fileName}/locales/${this._currentLocale}.json`
-		const featureFallbackPath = `${this._featuresDir}/${fileName}/locales/${this._fallbackLocale}.json`
+	importGettext(locale: string, catalog: string | Uint8Array, namespace: string = 'messages'): I18XS {
+		try {
+			const localization = typeof catalog === 'string' ? parsePo(catalog, locale) : parseMo(catalog, locale)
+			this.cacheLocalization(locale, namespace, localization)
 
-		let localization = this.loadFileContent(featureFilePath)
-		if (localization) {
-			// Cache the loaded localization
-			this.cacheLocalization(this._currentLocale, fileName, localization)
-			return localization
+			if (this._preloadLocalizations) {
+				this.mergeLocalization(locale, namespace, localization)
+			}
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to import gettext catalog', locale, namespace, error })
+			}
 		}
 
-		localization = this.loadFileContent(featureFallbackPath)
-		if (localization) {
-			// Cache the loaded localization
-			this.cacheLocalization(this._fallbackLocale, fileName, localization)
-			return localization
+		return this
+	}
+
+	/**
+	 * Exports the loaded localizations of a locale to a gettext `.po` catalog, or a `.pot` template.
+	 * Every message of the source locale becomes an entry whose msgctxt is its key path and whose msgid is its
+	 * source text, so the catalog can be edited in tools like Poedit and imported back with `importGettext`.
+	 * Messages missing from the locale are written untranslated.
+	 *
+	 * @param locale - The locale to export, defaults to the current locale.
+	 * @param options - The source locale (defaults to the fallback locale), whether to write an untranslated
+	 * template and the Plural-Forms header (defaults to the rule of the locale's language).
+	 * @returns The PO document.
+	 *
+	 * @example
+	 * writeFileSync('./po/ar.po', i18xs.exportGettext('ar'))
+	 * writeFileSync('./po/messages.pot', i18xs.exportGettext('en', { template: true }))
+	 */
+	exportGettext(
+		locale: string = this._currentLocale,
+		{ sourceLocale = this._fallbackLocale, template = false, pluralForms }: GettextExportOptions = {}
+	): string {
+		const localization = this.getLocaleLocalization(locale)
+		const source = this.getLocaleLocalization(sourceLocale)
+
+		return stringifyPo(localization, {
+			locale,
+			source: Object.keys(source).length ? source : localization,
+			template,
+			pluralForms,
+		})
+	}
+
+	/**
+	 * Exports a target locale and its source locale to an XLIFF 1.2 or 2.0 document for translation vendors.
+	 * Every message of the source locale becomes a unit whose id is its key path, plural objects are split into one unit
+	 * per plural category of the target locale and placeholders become inline codes. Units are marked as translated,
+	 * or as needing translation when missing from the target locale.
+	 *
+	 * @param locale - The target locale, defaults to the current locale.
+	 * @param options - The source locale (defaults to the fallback locale), the XLIFF version (defaults to 1.2)
+	 * and notes for translators keyed by key path.
+	 * @returns The XLIFF document.
+	 *
+	 * @example
+	 * writeFileSync('./xliff/ar.xlf', i18xs.exportXliff('ar', { version: '2.0', notes: { 'cart.title': 'Page title' } }))
+	 */
+	exportXliff(
+		locale: string = this._currentLocale,
+		{ sourceLocale = this._fallbackLocale, version = '1.2', notes = {} }: XliffExportOptions = {}
+	): string {
+		return stringifyXliff(this.getLocaleLocalization(sourceLocale), this.getLocaleLocalization(locale), {
+			sourceLocale,
+			targetLocale: locale,
+			version,
+			notes,
+		})
+	}
+
+	/**
+	 * Imports a translated XLIFF 1.2 or 2.0 document, merging its translated units into the loaded localizations of
+	 * its target locale. Unit ids are nested as key paths so plural forms become plural objects again, inline
+	 * placeholder codes become placeholders, and units without target are skipped.
+	 *
+	 * @param document - The XLIFF document.
+	 * @param locale - The locale to import into, defaults to the target language of the document.
+	 * @returns {I18XS} - The updated I18XS instance.
+	 *
+	 * @example
+	 * i18xs.importXliff(readFileSync('./xliff/ar.xlf', 'utf8')).changeCurrentLocale('ar')
+	 */
+	importXliff(document: string, locale?: string): I18XS {
+		try {
+			const { targetLocale, localization } = parseXliff(document)
+			const target = locale ?? targetLocale
+
+			if (!target) {
+				throw new Error('The XLIFF document has no target language')
+			}
+
+			this._localizations[target] ??= {}
+			this.mergeTranslations(this.getLocaleLocalization(target), localization)
+			this._resolvedLocales = {}
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to import XLIFF document', locale, error })
+			}
 		}
 
-		return undefined
+		return this
+	}
+
+	/**
+	 * Exports the loaded localizations of every supported locale to a CSV (or TSV) spreadsheet for translators, with a
+	 * key column and one column per locale. Rows use the key paths reported by `findMissingKeys`, plural and select
+	 * objects being split into one row per form (`cart.items.one`, `cart.items.other`), and messages missing from a
+	 * locale are left empty.
+	 *
+	 * @param options - The cell delimiter, defaults to ',' (use '\t' for TSV).
+	 * @returns The CSV document.
+	 *
+	 * @example
+	 * writeFileSync('./translations.csv', i18xs.exportCsv())
+	 * writeFileSync('./translations.tsv', i18xs.exportCsv({ delimiter: '\t' }))
+	 */
+	exportCsv({ delimiter = ',' }: CsvOptions = {}): string {
+		const localizations: Record<string, Localization> = {}
+		const keys = new Set<string>()
+
+		for (const locale of this._supportedLocales) {
+			localizations[locale] = this.getLocaleLocalization(locale)
+			this.collectKeys(localizations[locale], '', keys)
+		}
+
+		return stringifyCsv(localizations, [...keys], { delimiter })
+	}
+
+	/**
+	 * Imports a CSV (or TSV) spreadsheet edited by translators, merging the messages of each locale column into the
+	 * loaded localizations of that locale. Key paths are nested so suffixed rows (`cart.items.one`) form plural objects
+	 * again, and empty cells are skipped and reported as missing, except for plural forms the locale doesn't use.
+	 *
+	 * @param document - The CSV document, with a header row of `key` and the locale of each column.
+	 * @param options - The cell delimiter, defaults to ','.
+	 * @returns The key paths missing from each locale, only listing locales with empty cells.
+	 *
+	 * @example
+	 * const missing = i18xs.importCsv(readFileSync('./translations.csv', 'utf8'))
+	 * // { ar: ['cart.discount'] }
+	 */
+	importCsv(document: string, { delimiter = ',' }: CsvOptions = {}): Record<string, string[]> {
+		try {
+			const { localizations, missing } = parseCsv(document, { delimiter })
+
+			for (const [locale, localization] of Object.entries(localizations)) {
+				this._localizations[locale] ??= {}
+				this.mergeTranslations(this.getLocaleLocalization(locale), localization)
+			}
+
+			this._resolvedLocales = {}
+			return missing
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to import CSV document', error })
+			}
+			return {}
+		}
+	}
+
+	/**
+	 * Merges imported translations into a localization, recursing into nested groups while messages and
+	 * plural/select objects are replaced.
+	 * @param target - The localization to update
+	 * @param translations - The imported translations
+	 */
+	private mergeTranslations(target: Localization, translations: Localization): void {
+		for (const [key, value] of Object.entries(translations)) {
+			const current = target[key]
+
+			if (this.isNestedLocalization(value) && this.isNestedLocalization(current)) {
+				this.mergeTranslations(current as Localization, value as Localization)
+			} else {
+				target[key] = value
+			}
+		}
+	}
+
+	/**
+	 * Gets the loaded localizations of a locale as one object: the merged localization when preloading,
+	 * otherwise the cached files keyed by their name, matching the identifiers of each mode.
+	 * @param locale - The locale code
+	 * @returns The localization of the locale, empty when nothing is loaded
+	 */
+	private getLocaleLocalization(locale: string): Localization {
+		const localeData = this._localizations[locale] ?? {}
+
+		return localeData['__merged__'] ?? localeData
 	}
 
 	/**
@@ -676,6 +1654,12 @@ export default class I18XS {
 		}
 
 		this._currentLocale = locale
+		this._formatters.clear()
+		this._resolvedLocales = {}
+
+		if (this._backend) {
+			this._ready = this.loadLocaleChain()
+		}
 
 		if (this._showLogs) {
 			console.debug(`Changed current locale to ${locale}`)
@@ -684,6 +1668,32 @@ export default class I18XS {
 		return this
 	}
 
+	/**
+	 * Registers a named value formatter that placeholders can pipe their value through.
+	 * The formatter receives the value, the current locale and the arguments written after its name.
+	 *
+	 * @param name - The formatter name used in messages
+	 * @param formatter - The formatter function
+	 * @returns {I18XS} - The updated I18XS instance.
+	 *
+	 * @example
+	 * i18xs.registerFormatter('initials', (value) => String(value).split(' ').map((word) => word[0]).join(''))
+	 * i18xs.replaceData('Signed by {name|initials}', { name: 'John Doe' }) // "Signed by JD"
+	 *
+	 * @example
+	 * i18xs.registerFormatter('pad', (value, locale, length) => String(value).padStart(Number(length), '0'))
+	 * i18xs.replaceData('Order #{id|pad:6}', { id: 42 }) // "Order #000042"
+	 */
+	registerFormatter(name: string, formatter: ValueFormatter): I18XS {
+		this._valueFormatters[name] = formatter
+
+		if (this._showLogs) {
+			console.debug(`Registered value formatter ${name}`)
+		}
+
+		return this
+	}
+
 	/**
 	 * Checks if the given locale is supported.
 	 *
@@ -715,22 +1725,88 @@ export default class I18XS {
 
 		if (!fileName) return false
 
-		const localization = this.loadLocalization(fileName)
+		return this.getLocaleChain().some((locale) => {
+			const localization = this.loadLocalization(fileName, locale)
 
-		if (!localization) return false
+			if (!localization) return false
 
-		const message = this.searchForLocalization(identifier, localization)
+			return !!this.searchForLocalization(identifier, localization)
+		})
+	}
 
-		if (!message) return false
+	/**
+	 * Gets the locale that serves a message, looking it up along the locale chain of the current locale.
+	 *
+	 * @param identifier - The identifier of the message.
+	 * @returns The locale the message is served from, or null when no locale of the chain has it.
+	 *
+	 * @example
+	 * const i18xs = new I18XS({ currentLocale: 'es-MX', supportedLocales: ['es-MX'], fallbackLocale: 'en' })
+	 * i18xs.getMessageLocale('general.Checkout') // 'es' when the key is missing from the es-MX localization
+	 */
+	getMessageLocale(identifier: string): string | null {
+		return this.getLocaleChain().find((locale) => this.findMessageInLocale(identifier, locale)) ?? null
+	}
 
-		return true
+	/**
+	 * Gets a report of the locale that served each message looked up since the last locale change.
+	 * Useful to find the keys missing from the current locale while debugging. Lookups are only recorded with the
+	 * `reportResolvedLocales` or `showLogs` option, so the report doesn't grow with every key looked up in production.
+	 *
+	 * @returns The serving locale keyed by identifier, null for identifiers missing from every locale of the chain.
+	 *
+	 * @example
+	 * const i18xs = new I18XS({ currentLocale: 'es-MX', supportedLocales: ['es-MX'], reportResolvedLocales: true })
+	 * i18xs.t('general.Cart')
+	 * i18xs.t('general.Checkout')
+	 * i18xs.getResolvedLocales() // { 'general.Cart': 'es-MX', 'general.Checkout': 'en' }
+	 */
+	getResolvedLocales(): Record<string, string | null> {
+		return { ...this._resolvedLocales }
+	}
+
+	/**
+	 * Gets the locales searched for a message, in order: the locale and its parent locales (BCP 47 truncation),
+	 * their explicit `fallbackLocales` (each with its own parents and fallbacks), then the `fallbackLocale`.
+	 * Messages fall through this chain key by key.
+	 *
+	 * @param locale - The locale to resolve the chain for, defaults to the current locale.
+	 * @returns The locales in lookup order, without duplicates.
+	 *
+	 * @example
+	 * const i18xs = new I18XS({ currentLocale: 'pt-BR', fallbackLocale: 'en', fallbackLocales: { 'pt-BR': ['pt-PT'] } })
+	 * i18xs.getLocaleChain() // ['pt-BR', 'pt', 'pt-PT', 'en']
+	 */
+	getLocaleChain(locale: string = this._currentLocale): string[] {
+		if (this._localeChains[locale]) return this._localeChains[locale]
+
+		const chain: string[] = []
+		const visit = (code: string): void => {
+			// Only locales not in the chain yet are expanded, which also stops fallback cycles
+			const parents = truncateLocale(code).filter((parent) => !chain.includes(parent))
+			chain.push(...parents)
+
+			for (const parent of parents) {
+				this._fallbackLocales[parent]?.forEach(visit)
+			}
+		}
+
+		visit(locale)
+		visit(this._fallbackLocale)
+
+		this._localeChains[locale] = chain
+		return chain
 	}
 
 	/**
 	 * Replaces placeholders in a message with corresponding values from the provided data object.
+	 * The message is evaluated as ICU MessageFormat, so inline plural, selectordinal and select arguments are supported.
+	 * Placeholders without a matching key in the data object are left untouched, and quoted or escaped braces are
+	 * resolved like in t(), with or without data.
 	 *
 	 * @param message - The message containing placeholders to be replaced.
 	 * @param data - The object containing key-value pairs for replacing placeholders.
+	 * @param options - Optional settings, `escapeValues` overrides the configured HTML escaping of values.
 	 * @returns The message with placeholders replaced by corresponding values from the data object.
 	 *
 	 * @example
@@ -739,16 +1815,356 @@ export default class I18XS {
 	 * const data = { name: "John", count: 5 };
 	 * const result = i18xs.replaceData(message, data);
 	 * // result: "Hello, John! You have 5 new messages."
+	 *
+	 * @example
+	 * i18xs.replaceData('{count, plural, one {# item} other {# items}}', { count: 3 })
+	 * // result: "3 items"
+	 *
+	 * @example
+	 * i18xs.replaceData('<p>{comment}</p>', { comment: '<script>' }, { escapeValues: true })
+	 * // result: "<p>&lt;script&gt;</p>"
+	 */
+	replaceData(message: string, data?: LocalizationData, options?: MessageOptions): string {
+		return this.evaluateMessageNodes(parseMessage(message, this._interpolationDelimiters), data, undefined, {
+			linkChain: [],
+			escapeValues: options?.escapeValues ?? this._escapeValues,
+		})
+	}
+
+	/**
+	 * Marks a value as trusted HTML, so it is inserted as is when interpolated values are HTML-escaped.
+	 * Only use it for values that are already escaped or come from a trusted source.
+	 *
+	 * @param html - The trusted HTML value
+	 * @returns The value marked as trusted HTML, to be passed in the data object
+	 *
+	 * @example
+	 * i18xs.t('general.Greeting', { name: i18xs.trustHtml('<b>John</b>') }, { escapeValues: true })
+	 * // "Hello <b>John</b>"
+	 */
+	trustHtml(html: string): TrustedHtml {
+		return { [TRUSTED_HTML_KEY]: html }
+	}
+
+	/**
+	 * Formats a message string by evaluating its ICU MessageFormat syntax against the data object.
+	 * Parsed messages are cached per locale and identifier so repeated calls don't re-parse.
+	 * @param message - The message string
+	 * @param data - Optional data object for placeholders
+	 * @param identifier - Optional identifier of the message, used as the cache key
+	 * @param context - The identifiers of the messages linking to this one and the argument transform
+	 * @returns The formatted message string
+	 */
+	private formatMessageString(
+		message: string,
+		data?: LocalizationData,
+		identifier?: string,
+		context: FormatContext = { linkChain: [] }
+	): string {
+		const messageContext = identifier ? { ...context, linkChain: [...context.linkChain, identifier] } : context
+
+		// Plain text has no arguments, quoting or escapes to evaluate
+		if (
+			!message.includes(this._interpolationDelimiters[0]) &&
+			!message.includes('\'') &&
+			!message.includes('\\')
+		) {
+			return this.resolveLinks(message, data, messageContext)
+		}
+
+		return this.evaluateMessageNodes(this.getParsedMessage(message, identifier), data, undefined, messageContext)
+	}
+
+	/**
+	 * Resolves references to other messages (`@:general.app_name`, `@:(general.app_name)` or `$t(general.app_name)`)
+	 * in the text of a message, using the same lookup as t() with the current locale and fallback.
+	 * Circular references and chains deeper than MAX_LINK_DEPTH are left unresolved.
+	 * @param text - The text of the message
+	 * @param data - Optional data object passed to the linked messages
+	 * @param context - The identifiers of the messages being resolved, used to detect cycles
+	 * @returns The text with its references replaced by the linked messages
+	 */
+	private resolveLinks(text: string, data?: LocalizationData, context: FormatContext = { linkChain: [] }): string {
+		if (!text.includes('@:') && !text.includes('$t(')) {
+			return text
+		}
+
+		return text.replace(MESSAGE_LINK_PATTERN, (reference, ...identifiers: (string | undefined)[]) => {
+			const linkedIdentifier = identifiers.find((identifier) => typeof identifier === 'string')?.trim()
+
+			if (!linkedIdentifier) return reference
+
+			const { linkChain } = context
+
+			if (linkChain.includes(linkedIdentifier) || linkChain.length >= MAX_LINK_DEPTH) {
+				if (this._showLogs) {
+					console.warn({ message: 'Unresolvable message link', reference, linkChain })
+				}
+				return reference
+			}
+
+			const linkedMessage = this.findMessage(linkedIdentifier)
+
+			if (!linkedMessage) {
+				return this._showMissingIdentifierMessage ? this._missingIdentifierMessage : linkedIdentifier
+			}
+
+			return this.formatMessageValue(linkedMessage, data, linkedIdentifier, context)
+		})
+	}
+
+	/**
+	 * Gets the parsed nodes of a message from the cache, parsing and caching it on the first call.
+	 * @param message - The message string
+	 * @param identifier - Optional identifier of the message, messages without one are not cached
+	 * @returns The parsed message nodes
 	 */
-	replaceData(message: string, data?: LocalizationData): string {
-		if (!data) return message
+	private getParsedMessage(message: string, identifier?: string): MessageNode[] {
+		if (!identifier) {
+			return parseMessage(message, this._interpolationDelimiters)
+		}
+
+		const cacheKey = `${this._currentLocale}:${identifier}`
+		const cachedMessages = (this._parsedMessages[cacheKey] ??= {})
+
+		if (!cachedMessages[message]) {
+			cachedMessages[message] = parseMessage(message, this._interpolationDelimiters)
+		}
 
-		return Object.keys(data).reduce((acc, key) => {
-			const value = data?.[key]
-			// Handle null, undefined, and other non-string values safely
-			const replacement = value !== null && value !== undefined ? String(value) : ''
-			return acc.replace(new RegExp(`{${key}}`, 'g'), replacement)
-		}, message)
+		return cachedMessages[message]
+	}
+
+	/**
+	 * Evaluates parsed message nodes against the data object.
+	 * @param nodes - The parsed message nodes
+	 * @param data - Optional data object for arguments
+	 * @param pluralValue - The value of the enclosing plural argument, used for the # shorthand
+	 * @param context - The identifiers of the messages being resolved and the argument transform
+	 * @returns The evaluated message string
+	 */
+	private evaluateMessageNodes(
+		nodes: MessageNode[],
+		data?: LocalizationData,
+		pluralValue?: number,
+		context: FormatContext = { linkChain: [] }
+	): string {
+		return nodes
+			.map((node) => {
+				switch (node.type) {
+					case 'text':
+						return this.resolveLinks(node.value, data, context)
+					case 'pound':
+						return pluralValue === undefined ? '#' : this.formatNumber(pluralValue)
+					case 'argument':
+					case 'format':
+						return this.formatArgument(node, data, context)
+					case 'plural': {
+						const value = Number(this.getDataValue(data, node.name))
+
+						// Without a numeric argument the other option is used, leaving its # shorthand as written
+						if (!this.hasDataValue(data, node.name) || Number.isNaN(value)) {
+							const option = this.selectMessageOption(node.options, ['other'])
+							return option ? this.evaluateMessageNodes(option, data, undefined, context) : ''
+						}
+
+						const category = this.getPluralCategory(
+							value - node.offset,
+							node.ordinal ? 'ordinal' : 'cardinal'
+						)
+						const option = this.selectMessageOption(node.options, [`=${value}`, category, 'other'])
+
+						return option ? this.evaluateMessageNodes(option, data, value - node.offset, context) : ''
+					}
+					case 'select': {
+						const option = this.selectMessageOption(node.options, [
+							String(this.getDataValue(data, node.name)),
+							'other',
+						])
+
+						return option ? this.evaluateMessageNodes(option, data, pluralValue, context) : ''
+					}
+				}
+			})
+			.join('')
+	}
+
+	/**
+	 * Formats a simple or typed argument of a message using the current locale.
+	 * Arguments without a matching key in the data object are returned as written in the message,
+	 * the others are HTML-escaped when the context asks for it (unless marked as trusted HTML)
+	 * and passed through the argument transform of the context once formatted.
+	 * @param node - The argument node
+	 * @param data - Optional data object for arguments
+	 * @param context - The formatting context holding the escaping mode and the optional argument transform
+	 * @returns The formatted argument value
+	 */
+	private formatArgument(
+		node: Extract<MessageNode, { type: 'argument' | 'format' }>,
+		data?: LocalizationData,
+		context: FormatContext = { linkChain: [] }
+	): string {
+		if (!this.hasDataValue(data, node.name)) {
+			const [prefix, suffix] = this._interpolationDelimiters
+			const name = [node.name, ...(node.formatters ?? [])].join('|')
+			if (node.type === 'argument') return `${prefix}${name}${suffix}`
+			return `${prefix}${[name, node.format, node.style].filter(Boolean).join(', ')}${suffix}`
+		}
+
+		const rawValue = this.getDataValue(data, node.name)
+		const trusted = this.isTrustedHtml(rawValue)
+		const formattedValue = this.formatArgumentValue(node, trusted ? rawValue[TRUSTED_HTML_KEY] : rawValue)
+		const value = context.escapeValues && !trusted ? escapeHtml(formattedValue) : formattedValue
+
+		return context.transformArgument ? context.transformArgument(value) : value
+	}
+
+	/**
+	 * Checks if a data value was marked as trusted HTML with trustHtml().
+	 * @param value - The data value to check
+	 * @returns True if the value is trusted HTML, false otherwise
+	 */
+	private isTrustedHtml(value: unknown): value is TrustedHtml {
+		return typeof value === 'object' && value !== null && typeof (value as TrustedHtml)[TRUSTED_HTML_KEY] === 'string'
+	}
+
+	/**
+	 * Formats the value of a simple or typed argument using the current locale.
+	 * Typed arguments support `number` (with the integer and percent styles or a `::` skeleton such as `::currency/EUR`),
+	 * `date` and `time` (with the short, medium, long and full styles).
+	 * @param node - The argument node
+	 * @param rawValue - The value of the argument in the data object
+	 * @returns The formatted argument value
+	 */
+	private formatArgumentValue(node: Extract<MessageNode, { type: 'argument' | 'format' }>, rawValue: unknown): string {
+		const value = this.applyValueFormatters(rawValue, node.formatters)
+		// Handle null, undefined, and other non-string values safely
+		if (value === null || value === undefined) return ''
+
+		if (node.type === 'format') {
+			switch (node.format) {
+				case 'number': {
+					const options = this.getNumberArgumentOptions(node.style)
+
+					if (options?.style === 'currency' && options.currency) {
+						return this.formatCurrency(Number(value), options.currency, options)
+					}
+					return this.formatNumber(Number(value), options)
+				}
+				case 'date':
+					return this.formatDate(value as Date | number | string, {
+						dateStyle: this.getDateArgumentStyle(node.style),
+					})
+				case 'time':
+					return this.formatTime(value as Date | number | string, {
+						timeStyle: this.getDateArgumentStyle(node.style),
+					})
+			}
+		}
+
+		return String(value)
+	}
+
+	/**
+	 * Checks if the data object has a value for an argument name.
+	 * The name is either a key of the data object or a dotted path whose first segment is a key.
+	 * @param data - Optional data object
+	 * @param name - The argument name, e.g. 'name' or 'user.name'
+	 * @returns True if the argument has a value in the data object
+	 */
+	private hasDataValue(data: LocalizationData | undefined, name: string): boolean {
+		if (!data) return false
+
+		return (
+			Object.prototype.hasOwnProperty.call(data, name) ||
+			Object.prototype.hasOwnProperty.call(data, name.split('.')[0])
+		)
+	}
+
+	/**
+	 * Gets the value of an argument from the data object.
+	 * Keys containing dots are matched first, then the name is resolved as a path of own properties
+	 * (e.g. 'order.items.length').
+	 * @param data - Optional data object
+	 * @param name - The argument name, e.g. 'name' or 'user.name'
+	 * @returns The value, or undefined if the path doesn't resolve
+	 */
+	private getDataValue(data: LocalizationData | undefined, name: string): unknown {
+		if (!data) return undefined
+
+		if (Object.prototype.hasOwnProperty.call(data, name)) {
+			return data[name]
+		}
+
+		// Only own properties are read, so paths like 'user.constructor' don't reach inherited members
+		return name.split('.').reduce<unknown>((value, key) => {
+			if (value === null || value === undefined || !isSafeKey(key) || !Object.hasOwn(value, key)) return undefined
+			return (value as Record<string, unknown>)[key]
+		}, data)
+	}
+
+	/**
+	 * Pipes a value through the named value formatters of an argument, e.g. ['uppercase', 'truncate:10'].
+	 * Arguments of a formatter follow its name separated by colons. Unknown formatters are skipped.
+	 * @param value - The argument value
+	 * @param formatters - The formatter names with their arguments
+	 * @returns The formatted value
+	 */
+	private applyValueFormatters(value: unknown, formatters?: string[]): unknown {
+		if (!formatters) return value
+
+		return formatters.reduce((result, formatter) => {
+			const [name, ...args] = formatter.split(':')
+			const valueFormatter = this._valueFormatters[name]
+
+			if (!valueFormatter) {
+				if (this._showLogs) {
+					console.warn({ message: 'Unknown value formatter', formatter: name })
+				}
+				return result
+			}
+
+			return valueFormatter(result, this._currentLocale, ...args)
+		}, value)
+	}
+
+	/**
+	 * Gets the Intl.NumberFormat options for the style of a number argument.
+	 * @param style - The argument style, e.g. 'integer', 'percent' or '::currency/EUR'
+	 * @returns The number format options, or undefined for the default format
+	 */
+	private getNumberArgumentOptions(style?: string): Intl.NumberFormatOptions | undefined {
+		if (style?.startsWith('::')) {
+			return parseNumberSkeleton(style.slice(2))
+		}
+
+		switch (style) {
+			case 'integer':
+				return { maximumFractionDigits: 0 }
+			case 'percent':
+				return { style: 'percent' }
+			default:
+				return undefined
+		}
+	}
+
+	/**
+	 * Gets the Intl.DateTimeFormat style for the style of a date or time argument.
+	 * @param style - The argument style
+	 * @returns The matching style, 'medium' when it's missing or unknown
+	 */
+	private getDateArgumentStyle(style?: string): 'full' | 'long' | 'medium' | 'short' {
+		return style === 'full' || style === 'long' || style === 'short' ? style : 'medium'
+	}
+
+	/**
+	 * Selects the first option of a plural or select argument that exists for the given keys.
+	 * @param options - The options of the argument
+	 * @param keys - The option keys in order of preference
+	 * @returns The nodes of the selected option, or undefined if none exists
+	 */
+	private selectMessageOption(options: Record<string, MessageNode[]>, keys: string[]): MessageNode[] | undefined {
+		const key = keys.find((key) => Object.prototype.hasOwnProperty.call(options, key))
+		return key === undefined ? undefined : options[key]
 	}
 
 	/**
@@ -792,6 +2208,7 @@ export default class I18XS {
 	 * If the message is a pluralization case, it selects the appropriate form based on the count in the data object.
 	 * @param identifier - The identifier of the message to be formatted.
 	 * @param data - Optional data object used for replacing placeholders in the message.
+	 * @param options - Optional settings, `escapeValues` overrides the configured HTML escaping of values.
 	 * @returns The formatted message.
 	 *
 	 * @example
@@ -810,85 +2227,141 @@ export default class I18XS {
 	 * const message = i18xs.formatMessage('general.Welcome_Message', { name: 'John' });
 	 * console.log(message); // Output: "Welcome, John!"
 	 */
-	formatMessage(identifier: string, data?: LocalizationData): string {
-		// When preloading is enabled, try merged localization first (no file prefix needed)
-		if (this._preloadLocalizations) {
-			const mergedLocalization =
-				this._localizations[this._currentLocale]?.['__merged__'] ||
-				this._localizations[this._fallbackLocale]?.['__merged__']
-
-			if (mergedLocalization) {
-				// Try to find the key directly in merged localizations (without file prefix)
-				let message = this.searchForLocalizationDirect(identifier, mergedLocalization)
-
-				// If not found and identifier contains a dot, try without the file prefix (backward compatibility)
-				// e.g., 'general.Hello_World' → 'Hello_World'
-				if (!message && identifier.includes('.')) {
-					const { keys } = this.splitIdentifier(identifier)
-					const identifierWithoutFile = keys.join('.')
-
-					if (identifierWithoutFile) {
-						message = this.searchForLocalizationDirect(identifierWithoutFile, mergedLocalization)
-					}
-				}
+	formatMessage(identifier: string, data?: LocalizationData, options?: MessageOptions): string {
+		const message = this.findMessage(identifier)
 
-				if (message) {
-					return this.formatMessageValue(message, data)
-				}
-
-				// Key not found in merged localizations
-				if (this._showMissingIdentifierMessage) {
-					return this._missingIdentifierMessage
-				}
-				return identifier
+		if (!message) {
+			if (this._showMissingIdentifierMessage) {
+				return this._missingIdentifierMessage
 			}
+
+			return identifier
 		}
 
-		// Fall back to traditional file-based approach
-		const { fileName } = this.splitIdentifier(identifier)
+		return this.formatMessageValue(message, data, identifier, {
+			linkChain: [],
+			escapeValues: options?.escapeValues ?? this._escapeValues,
+		})
+	}
 
-		if (!fileName) {
-			if (this._showMissingIdentifierMessage) {
-				return this._missingIdentifierMessage
+	/**
+	 * Finds the raw message (string or message object) for an identifier, walking the locale chain key by key.
+	 * @param identifier - The identifier of the message
+	 * @returns The message if found in any locale of the chain, otherwise undefined
+	 */
+	private findMessage(identifier: string): string | Localization | undefined {
+		for (const locale of this.getLocaleChain()) {
+			const message = this.findMessageInLocale(identifier, locale)
+
+			if (message) {
+				this.recordResolvedLocale(identifier, locale)
+				return message
 			}
+		}
 
-			return identifier
+		this.recordResolvedLocale(identifier, null)
+		return undefined
+	}
+
+	/**
+	 * Records the locale that served an identifier when reporting or logging, logging it the first time a fallback
+	 * locale serves it.
+	 * @param identifier - The identifier of the message
+	 * @param locale - The locale that served the message, null when it is missing from every locale of the chain
+	 */
+	private recordResolvedLocale(identifier: string, locale: string | null): void {
+		if (!this._reportResolvedLocales && !this._showLogs) return
+		if (this._resolvedLocales[identifier] === locale) return
+
+		this._resolvedLocales[identifier] = locale
+
+		if (this._showLogs && locale !== this._currentLocale) {
+			const message = locale ? 'Message served by fallback locale' : 'Message missing from every locale of the chain'
+			console.debug({ message, identifier, locale, chain: this.getLocaleChain() })
 		}
+	}
+
+	/**
+	 * Finds the raw message (string or message object) for an identifier in a single locale.
+	 * With preloading enabled, the merged localization is searched with and without the file prefix,
+	 * otherwise (or with strict namespaces) the file named by the first identifier segment is loaded and searched.
+	 * @param identifier - The identifier of the message
+	 * @param locale - The locale to search
+	 * @returns The message if found, otherwise undefined
+	 */
+	private findMessageInLocale(identifier: string, locale: string): string | Localization | undefined {
+		// When preloading is enabled, try merged localization first (no file prefix needed)
+		const mergedLocalization =
+			this._preloadLocalizations && !this._strictNamespaces ? this._localizations[locale]?.['__merged__'] : undefined
 
-		const localization = this.loadLocalization(fileName)
+		if (mergedLocalization) {
+			// Try to find the key directly in merged localizations (without file prefix)
+			let message = this.searchForLocalizationDirect(identifier, mergedLocalization)
 
-		if (!localization) {
-			if (this._showMissingIdentifierMessage) {
-				return this._missingIdentifierMessage
+			// If not found and identifier contains a dot, try without the file prefix (backward compatibility)
+			// e.g., 'general.Hello_World' → 'Hello_World'
+			if (!message && identifier.includes('.')) {
+				const { keys } = this.splitIdentifier(identifier)
+				const identifierWithoutFile = keys.join('.')
+
+				if (identifierWithoutFile) {
+					message = this.searchForLocalizationDirect(identifierWithoutFile, mergedLocalization)
+				}
 			}
 
-			return identifier
+			// Key not found in merged localizations
+			return message || undefined
 		}
 
-		const message = this.searchForLocalization(identifier, localization)
+		// Fall back to traditional file-based approach
+		const { fileName } = this.splitIdentifier(identifier)
 
-		if (!message) {
-			if (this._showMissingIdentifierMessage) {
-				return this._missingIdentifierMessage
-			}
+		if (!fileName) return undefined
 
-			return identifier
-		}
+		const localization = this.loadLocalization(fileName, locale)
 
-		return this.formatMessageValue(message, data)
+		if (!localization) return undefined
+
+		return this.searchForLocalization(identifier, localization) || undefined
 	}
 
 	/**
 	 * Formats the actual message value (handles pluralization and data replacement)
 	 * @param message - The message value (string or pluralization object)
 	 * @param data - Optional data object for placeholders
+	 * @param identifier - Optional identifier of the message, used to cache the parsed message
+	 * @param context - The identifiers of the messages linking to this one and the argument transform
 	 * @returns The formatted message string
 	 */
-	private formatMessageValue(message: string | Localization, data?: LocalizationData): string {
+	private formatMessageValue(
+		message: string | Localization,
+		data?: LocalizationData,
+		identifier?: string,
+		context: FormatContext = { linkChain: [] }
+	): string {
+		// If message is a select-variant object, format the variant chosen by the selector value. Unmarked objects of
+		// string variants with an 'other' key are selects too once t() reached them as the message
+		if (
+			typeof message === 'object' &&
+			message !== null &&
+			(this.isSelectObject(message) || this.isUnmarkedSelectObject(message))
+		) {
+			const selectedVariant = this.selectVariant(message, data)
+
+			if (selectedVariant === undefined) {
+				if (this._showLogs) {
+					console.warn({ message: 'No valid select variant found', selectData: message })
+				}
+				return this._showMissingIdentifierMessage ? this._missingIdentifierMessage : ''
+			}
+
+			return this.formatMessageValue(selectedVariant, data, identifier, context)
+		}
+
 		// If message is an object, it's a pluralization case
 		if (typeof message === 'object' && message !== null) {
 			// Validate that this is a pluralization object
-			if (!this.isPluralizationObject(message)) {
+			if (!isPluralLocalization(message)) {
 				// Not a valid pluralization object, return as-is or show error
 				if (this._showLogs) {
 					console.warn({ message: 'Invalid pluralization object', data: message })
@@ -912,21 +2385,7 @@ export default class I18XS {
 			}
 
 			// Select appropriate plural form
-			let selectedForm: string | undefined
-
-			switch (count) {
-				case 0:
-					selectedForm = message.zero as string | undefined
-					break
-				case 1:
-					selectedForm = message.one as string | undefined
-					break
-				case 2:
-					selectedForm = message.two as string | undefined
-					break
-				default:
-					selectedForm = message.other as string | undefined
-			}
+			let selectedForm = this.selectPluralForm(message, count)
 
 			// Fall back to 'other' if specific form doesn't exist
 			if (!selectedForm) {
@@ -941,26 +2400,121 @@ export default class I18XS {
 				return this._showMissingIdentifierMessage ? this._missingIdentifierMessage : ''
 			}
 
-			return this.replaceData(selectedForm, data)
+			return this.formatMessageString(selectedForm, data, identifier, context)
 		}
 
 		// Otherwise, it's a simple string
-		return this.replaceData(message as string, data)
+		return this.formatMessageString(message as string, data, identifier, context)
+	}
+
+	/**
+	 * Selects the plural form for a count using the CLDR rules of the current locale.
+	 * Resolution order: exact-value overrides (e.g. "=0", "=5"), the literal `zero`/`one`/`two`
+	 * keys for the counts 0/1/2, then the Intl.PluralRules category.
+	 * Objects marked with `"__type__": "ordinal"` use ordinal rules and skip the literal keys.
+	 * @param message - The pluralization object
+	 * @param count - The count used to pick the form
+	 * @returns The selected form, or undefined if none matches
+	 */
+	private selectPluralForm(message: Localization, count: number): string | undefined {
+		const exactForm = message[`=${count}`]
+		if (typeof exactForm === 'string') {
+			return exactForm
+		}
+
+		const type: Intl.PluralRuleType = message[MESSAGE_TYPE_KEY] === 'ordinal' ? 'ordinal' : 'cardinal'
+
+		// Keep the literal keys matching their counts so existing files behave as before
+		const literalKey = type === 'cardinal' ? ['zero', 'one', 'two'][count] : undefined
+		if (literalKey && typeof message[literalKey] === 'string') {
+			return message[literalKey] as string
+		}
+
+		const categoryForm = message[this.getPluralCategory(count, type)]
+		return typeof categoryForm === 'string' ? categoryForm : undefined
+	}
+
+	/**
+	 * Gets the CLDR plural category for a count in the current locale.
+	 * @param count - The count to categorize
+	 * @param type - The plural rule type, 'cardinal' (1 item, 2 items) or 'ordinal' (1st, 2nd)
+	 * @returns The plural category, or 'other' if the locale is not supported by Intl
+	 */
+	private getPluralCategory(count: number, type: Intl.PluralRuleType = 'cardinal'): Intl.LDMLPluralRule {
+		try {
+			return this.getFormatter(
+				'PluralRules',
+				{ type },
+				(locale) => new Intl.PluralRules(locale, { type })
+			).select(count)
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to select plural category', count, type, error })
+			}
+			return 'other'
+		}
 	}
 
 	/**
-	 * Checks if an object is a valid pluralization object.
-	 * A valid pluralization object should have at least 'other' property and be an object.
+	 * Checks if an object is a select-variant object.
+	 * It's either marked with `"__type__": "select"`, or has its own `"__selector__"` key and only string variants
+	 * (e.g. { __selector__: 'role', admin, other }). Groups of messages with an 'other' key stay nested groups.
 	 * @param obj - The object to check
-	 * @returns True if it's a valid pluralization object
+	 * @returns True if it's a select-variant object
 	 */
-	private isPluralizationObject(obj: Localization): boolean {
+	private isSelectObject(obj: Localization): boolean {
 		if (typeof obj !== 'object' || obj === null) {
 			return false
 		}
 
-		// Must have at least the 'other' key for plural forms
-		return 'other' in obj || 'zero' in obj || 'one' in obj || 'two' in obj
+		if (obj[MESSAGE_TYPE_KEY] === 'select') {
+			return true
+		}
+
+		return (
+			typeof obj[SELECTOR_KEY] === 'string' &&
+			'other' in obj &&
+			Object.values(obj).every((value) => typeof value === 'string')
+		)
+	}
+
+	/**
+	 * Checks if a message reached as a leaf is an unmarked select-variant object, e.g.
+	 * { male: 'He replied', female: 'She replied', other: 'They replied' }: not a plural object, only string
+	 * variants and an 'other' variant. Only used when formatting, as key collection and merging can't tell such an
+	 * object from a group of messages.
+	 * @param obj - The message to check
+	 * @returns True if the message can be formatted as a select-variant object
+	 */
+	private isUnmarkedSelectObject(obj: Localization): boolean {
+		return (
+			!isPluralLocalization(obj) &&
+			typeof obj.other === 'string' &&
+			Object.values(obj).every((value) => typeof value === 'string')
+		)
+	}
+
+	/**
+	 * Selects the variant of a select-variant object matching the selector value in the data object.
+	 * The selector key is read from the object's `__selector__` key, or the configured selectorKey.
+	 * @param message - The select-variant object
+	 * @param data - Optional data object holding the selector value
+	 * @returns The matching variant, the 'other' variant, or undefined if none exists
+	 */
+	private selectVariant(message: Localization, data?: LocalizationData): string | Localization | undefined {
+		const selectorKey =
+			typeof message[SELECTOR_KEY] === 'string' ? (message[SELECTOR_KEY] as string) : this._selectorKey
+		const selectorValue = data?.[selectorKey]
+
+		if (selectorValue !== undefined && selectorValue !== null) {
+			const variantKey = String(selectorValue)
+
+			if (!variantKey.startsWith('__') && Object.prototype.hasOwnProperty.call(message, variantKey)) {
+				return message[variantKey]
+			}
+		}
+
+		return message.other
 	}
 
 	/**
@@ -995,6 +2549,7 @@ export default class I18XS {
 	 * Automatically detects and loads from traditional or feature-based folder structures.
 	 * @param identifier - The identifier of the message to be translated.
 	 * @param data - Optional data to be used for message formatting.
+	 * @param options - Optional settings, `escapeValues` overrides the configured HTML escaping of values.
 	 * @returns The translated message.
 	 *
 	 * @example
@@ -1013,8 +2568,91 @@ export default class I18XS {
 	 * const message = i18n.t('general.Hello_World');
 	 * const featureMessage = i18n.t('foo.Hello_World');
 	 */
-	t(identifier: string, data?: LocalizationData): string {
-		return this.formatMessage(identifier, data)
+	t(identifier: string, data?: LocalizationData, options?: MessageOptions): string {
+		return this.formatMessage(identifier, data, options)
+	}
+
+	/**
+	 * Creates a translator scoped to a namespace (a file or feature name), so feature modules
+	 * can use short identifiers. Combine it with `strictNamespaces` to prevent keys from other files from matching.
+	 * @param namespace - The namespace prepended to every identifier, nested namespaces can use dots.
+	 * @returns A function translating identifiers relative to the namespace, with the same arguments as t().
+	 *
+	 * @example
+	 * const i18n = new I18XS({ featuresDir: './src/features', strictNamespaces: true });
+	 * const t = i18n.getFixedT('checkout');
+	 * t('title'); // Same as i18n.t('checkout.title')
+	 */
+	getFixedT(namespace: string): Translator {
+		return (identifier, data, options) => this.t(`${namespace}.${identifier}`, data, options)
+	}
+
+	/**
+	 * Formats a localized message and splits its tag-like markup (`<bold>text</bold>`, `<br/>`) into structured parts,
+	 * so any view layer can build its own elements instead of injecting HTML.
+	 * Placeholders are replaced before the tags are parsed, and markup inside argument values is kept as plain text.
+	 * Values are never HTML-escaped, since the view layer renders the text parts itself.
+	 * Tags with a renderer are replaced by the value it returns, the others are returned as tag parts.
+	 * @param identifier - The identifier of the message to be formatted.
+	 * @param data - Optional data object used for replacing placeholders in the message.
+	 * @param renderers - Optional renderers keyed by tag name, called with the rendered children of the tag.
+	 * @returns The text parts, rendered tags and unrendered tag parts of the message.
+	 *
+	 * @example
+	 * // "Terms": "Hi {name}, read the <link>terms</link>"
+	 * const parts = i18xs.formatMessageParts('Terms', { name: 'John' }, {
+	 *   link: (children) => <a href="/terms">{children}</a>,
+	 * });
+	 * // ['Hi John, read the ', <a href="/terms">terms</a>]
+	 */
+	formatMessageParts<T = never>(
+		identifier: string,
+		data?: LocalizationData,
+		renderers: Record<string, TagRenderer<T>> = {}
+	): MessagePart<T>[] {
+		const message = this.findMessage(identifier)
+
+		if (!message) {
+			return [this._showMissingIdentifierMessage ? this._missingIdentifierMessage : identifier]
+		}
+
+		// Argument values are swapped for placeholders so their content is never parsed as tags
+		const values: string[] = []
+		const text = this.formatMessageValue(message, data, identifier, {
+			linkChain: [],
+			transformArgument: (value) => `\uE000${values.push(value) - 1}\uE001`,
+		})
+
+		const renderParts = (parts: MessagePart[]): MessagePart<T>[] =>
+			parts.map((part) => {
+				if (typeof part === 'string') {
+					return part.replace(ARGUMENT_PLACEHOLDER_PATTERN, (_, index: string) => values[Number(index)])
+				}
+
+				const children = renderParts(part.children)
+				const renderer = renderers[part.name]
+				return renderer ? renderer(children, part.name) : { ...part, children }
+			})
+
+		return renderParts(parseTags(text))
+	}
+
+	/**
+	 * Shorthand for formatMessageParts method.
+	 * @param identifier - The identifier of the message to be formatted.
+	 * @param data - Optional data object used for replacing placeholders in the message.
+	 * @param renderers - Optional renderers keyed by tag name, called with the rendered children of the tag.
+	 * @returns The text parts, rendered tags and unrendered tag parts of the message.
+	 *
+	 * @example
+	 * const parts = i18n.tParts('Terms', undefined, { bold: (children) => `**${children.join('')}**` });
+	 */
+	tParts<T = never>(
+		identifier: string,
+		data?: LocalizationData,
+		renderers?: Record<string, TagRenderer<T>>
+	): MessagePart<T>[] {
+		return this.formatMessageParts(identifier, data, renderers)
 	}
 
 	/**
@@ -1174,7 +2812,11 @@ export default class I18XS {
 	 */
 	formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
 		try {
-			const formatter = new Intl.NumberFormat(this._currentLocale, options)
+			const formatter = this.getFormatter(
+				'NumberFormat',
+				options,
+				(locale) => new Intl.NumberFormat(locale, options)
+			)
 			return formatter.format(value)
 		} catch (error) {
 			if (this._showLogs) {
@@ -1233,11 +2875,12 @@ export default class I18XS {
 	 */
 	formatCurrency(value: number, currency: string, options?: Intl.NumberFormatOptions): string {
 		try {
-			const formatter = new Intl.NumberFormat(this._currentLocale, {
-				style: 'currency',
-				currency,
-				...options,
-			})
+			const formatterOptions: Intl.NumberFormatOptions = { style: 'currency', currency, ...options }
+			const formatter = this.getFormatter(
+				'NumberFormat',
+				formatterOptions,
+				(locale) => new Intl.NumberFormat(locale, formatterOptions)
+			)
 			return formatter.format(value)
 		} catch (error) {
 			if (this._showLogs) {
@@ -1248,6 +2891,412 @@ export default class I18XS {
 		}
 	}
 
+	/**
+	 * Formats a list of values according to the current locale.
+	 * Uses the Intl.ListFormat API for locale-aware conjunctions and disjunctions.
+	 *
+	 * @param values - The values to join
+	 * @param options - Optional Intl.ListFormatOptions for customization
+	 * @returns The formatted list string
+	 *
+	 * @example
+	 * i18n.formatList(['Red', 'Green', 'Blue'])
+	 * // en: "Red, Green, and Blue"
+	 * // ar: "Red وGreen وBlue"
+	 *
+	 * @example
+	 * // Disjunction
+	 * i18n.formatList(['Red', 'Green', 'Blue'], { type: 'disjunction' })
+	 * // en: "Red, Green, or Blue"
+	 */
+	formatList(values: string[], options?: Intl.ListFormatOptions): string {
+		try {
+			const formatter = this.getFormatter('ListFormat', options, (locale) => new Intl.ListFormat(locale, options))
+			return formatter.format(values)
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to format list', values, error })
+			}
+			// Fallback to basic join
+			return values.join(', ')
+		}
+	}
+
+	/**
+	 * Formats a value with a unit according to the current locale.
+	 * Uses the Intl.NumberFormat API with unit-specific formatting.
+	 *
+	 * @param value - The numeric value to format
+	 * @param unit - The sanctioned unit identifier (e.g., 'kilometer', 'megabyte', 'kilometer-per-hour')
+	 * @param options - Optional Intl.NumberFormatOptions for customization
+	 * @returns The formatted unit string
+	 *
+	 * @example
+	 * i18n.formatUnit(12.5, 'kilometer')
+	 * // en: "12.5 km"
+	 *
+	 * @example
+	 * i18n.formatUnit(512, 'megabyte', { unitDisplay: 'long' })
+	 * // en: "512 megabytes"
+	 */
+	formatUnit(value: number, unit: string, options?: Intl.NumberFormatOptions): string {
+		try {
+			const formatterOptions: Intl.NumberFormatOptions = { style: 'unit', unit, ...options }
+			const formatter = this.getFormatter(
+				'NumberFormat',
+				formatterOptions,
+				(locale) => new Intl.NumberFormat(locale, formatterOptions)
+			)
+			return formatter.format(value)
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to format unit', value, unit, error })
+			}
+			// Fallback to basic formatting
+			return `${value} ${unit}`
+		}
+	}
+
+	/**
+	 * Formats a duration according to the current locale, e.g. "2 hours, 30 minutes".
+	 * Each non-zero part is formatted as a unit and the parts are joined as a unit list. A negative duration is
+	 * formatted as one signed duration, the sign being shown on its first part only.
+	 *
+	 * @param duration - The duration as an object of parts, or a number of milliseconds
+	 * @param options - Optional settings
+	 * @param options.style - The width of the units and the list: 'long' (default), 'short' or 'narrow'
+	 * @returns The formatted duration string
+	 * @throws {RangeError} If the parts of the duration object do not all have the same sign
+	 *
+	 * @example
+	 * i18n.formatDuration({ hours: 2, minutes: 30 })
+	 * // en: "2 hours, 30 minutes"
+	 *
+	 * @example
+	 * i18n.formatDuration(90 * 60 * 1000, { style: 'short' })
+	 * // en: "1 hr, 30 min"
+	 *
+	 * @example
+	 * i18n.formatDuration(-90 * 60 * 1000)
+	 * // en: "-1 hour, 30 minutes"
+	 */
+	formatDuration(duration: Duration | number, options?: { style?: 'long' | 'short' | 'narrow' }): string {
+		const { style = 'long' } = options ?? {}
+		const parts = typeof duration === 'number' ? this.splitDuration(Math.abs(duration)) : duration
+		const units: [keyof Duration, string][] = [
+			['years', 'year'],
+			['months', 'month'],
+			['weeks', 'week'],
+			['days', 'day'],
+			['hours', 'hour'],
+			['minutes', 'minute'],
+			['seconds', 'second'],
+		]
+
+		const values = units.map(([key]) => parts[key] ?? 0)
+
+		if (values.some((value) => value < 0) && values.some((value) => value > 0)) {
+			throw new RangeError('The parts of a duration must all have the same sign')
+		}
+
+		const negative = typeof duration === 'number' ? duration < 0 : values.some((value) => value < 0)
+		const sign = negative ? -1 : 1
+		const formattedParts = units
+			.filter(([key]) => parts[key])
+			.map(([key, unit], index) =>
+				this.formatUnit((index === 0 ? sign : 1) * Math.abs(parts[key] as number), unit, { unitDisplay: style })
+			)
+
+		if (formattedParts.length === 0) {
+			return this.formatUnit(0, 'second', { unitDisplay: style })
+		}
+
+		return this.formatList(formattedParts, { type: 'unit', style })
+	}
+
+	/**
+	 * Gets the display name of a language, region, currency, script or calendar in the current locale.
+	 * Uses the Intl.DisplayNames API.
+	 *
+	 * @param code - The code to translate (e.g., 'fr', 'en-US', 'EG', 'EUR', 'Arab')
+	 * @param type - The type of the code, defaults to 'language'
+	 * @param options - Optional Intl.DisplayNamesOptions for customization
+	 * @returns The display name, or the code itself if no name is available
+	 *
+	 * @example
+	 * i18n.displayName('fr') // en: "French", ar: "الفرنسية"
+	 * i18n.displayName('EG', 'region') // en: "Egypt"
+	 * i18n.displayName('EUR', 'currency') // en: "Euro"
+	 * i18n.displayName('Arab', 'script') // en: "Arabic"
+	 */
+	displayName(
+		code: string,
+		type: Intl.DisplayNamesType = 'language',
+		options?: Omit<Intl.DisplayNamesOptions, 'type'>
+	): string {
+		try {
+			const displayNamesOptions: Intl.DisplayNamesOptions = { type, ...options }
+			const displayNames = this.getFormatter(
+				'DisplayNames',
+				displayNamesOptions,
+				(locale) => new Intl.DisplayNames(locale, displayNamesOptions)
+			)
+			return displayNames.of(code) ?? code
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to get display name', code, type, error })
+			}
+			// Fallback to the code itself
+			return code
+		}
+	}
+
+	/**
+	 * Formats a date according to the current locale and the configured time zone.
+	 * Uses the Intl.DateTimeFormat API for locale-aware date formatting.
+	 *
+	 * @param value - The date to format, as a Date, timestamp or date string
+	 * @param options - Optional Intl.DateTimeFormatOptions, defaults to { dateStyle: 'medium' }
+	 * @returns The formatted date string
+	 *
+	 * @example
+	 * i18n.formatDate(new Date(2024, 2, 15))
+	 * // en: "Mar 15, 2024"
+	 * // ar: "١٥‏/٠٣‏/٢٠٢٤"
+	 *
+	 * @example
+	 * i18n.formatDate(new Date(2024, 2, 15), { weekday: 'long', day: 'numeric', month: 'long' })
+	 * // en: "Friday, March 15"
+	 */
+	formatDate(value: Date | number | string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+		return this.formatDateTimeValue(value, options, 'Failed to format date')
+	}
+
+	/**
+	 * Formats the time of a date according to the current locale and the configured time zone.
+	 *
+	 * @param value - The date to format, as a Date, timestamp or date string
+	 * @param options - Optional Intl.DateTimeFormatOptions, defaults to { timeStyle: 'short' }
+	 * @returns The formatted time string
+	 *
+	 * @example
+	 * i18n.formatTime(new Date(2024, 2, 15, 14, 30))
+	 * // en: "2:30 PM"
+	 * // de: "14:30"
+	 */
+	formatTime(value: Date | number | string, options: Intl.DateTimeFormatOptions = { timeStyle: 'short' }): string {
+		return this.formatDateTimeValue(value, options, 'Failed to format time')
+	}
+
+	/**
+	 * Formats a date and its time according to the current locale and the configured time zone.
+	 *
+	 * @param value - The date to format, as a Date, timestamp or date string
+	 * @param options - Optional Intl.DateTimeFormatOptions, defaults to { dateStyle: 'medium', timeStyle: 'short' }
+	 * @returns The formatted date and time string
+	 *
+	 * @example
+	 * i18n.formatDateTime(new Date(2024, 2, 15, 14, 30))
+	 * // en: "Mar 15, 2024, 2:30 PM"
+	 */
+	formatDateTime(
+		value: Date | number | string,
+		options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+	): string {
+		return this.formatDateTimeValue(value, options, 'Failed to format date time')
+	}
+
+	/**
+	 * Formats a range between two dates according to the current locale and the configured time zone.
+	 * Shared parts of the dates are only shown once (e.g. "Mar 15 – 20, 2024").
+	 *
+	 * @param start - The start of the range, as a Date, timestamp or date string
+	 * @param end - The end of the range, as a Date, timestamp or date string
+	 * @param options - Optional Intl.DateTimeFormatOptions, defaults to { dateStyle: 'medium' }
+	 * @returns The formatted date range string
+	 *
+	 * @example
+	 * i18n.formatDateRange(new Date(2024, 2, 15), new Date(2024, 2, 20))
+	 * // en: "Mar 15 – 20, 2024"
+	 */
+	formatDateRange(
+		start: Date | number | string,
+		end: Date | number | string,
+		options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+	): string {
+		try {
+			const formatterOptions: Intl.DateTimeFormatOptions = { timeZone: this._timeZone, ...options }
+			const formatter = this.getFormatter(
+				'DateTimeFormat',
+				formatterOptions,
+				(locale) => new Intl.DateTimeFormat(locale, formatterOptions)
+			)
+			return formatter.formatRange(this.toDate(start), this.toDate(end))
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to format date range', start, end, error })
+			}
+			// Fallback to basic formatting
+			return `${String(start)} – ${String(end)}`
+		}
+	}
+
+	/**
+	 * Formats a date relative to now (or options.now) according to the current locale.
+	 * Uses the Intl.RelativeTimeFormat API and picks the largest fitting unit automatically
+	 * (seconds, minutes, hours, days, weeks, months, years), unless options.unit is given.
+	 *
+	 * @param value - The date to describe, as a Date, timestamp or date string
+	 * @param options - Optional Intl.RelativeTimeFormatOptions, plus `unit` to force a unit and `now` as the reference date
+	 * @returns The formatted relative time string
+	 *
+	 * @example
+	 * i18n.formatRelativeTime(Date.now() - 3 * 60 * 1000)
+	 * // en: "3 minutes ago"
+	 * // ar: "قبل ٣ دقائق"
+	 *
+	 * @example
+	 * i18n.formatRelativeTime(Date.now() + 2 * 24 * 60 * 60 * 1000)
+	 * // en: "in 2 days"
+	 *
+	 * @example
+	 * i18n.formatRelativeTime(Date.now() - 24 * 60 * 60 * 1000, { numeric: 'auto' })
+	 * // en: "yesterday"
+	 */
+	formatRelativeTime(value: Date | number | string, options?: RelativeTimeOptions): string {
+		const { unit, now = Date.now(), ...formatOptions } = options ?? {}
+
+		try {
+			const seconds = (this.toDate(value).getTime() - this.toDate(now).getTime()) / 1000
+			const selectedUnit = unit ?? this.selectRelativeTimeUnit(seconds)
+			const formatter = this.getFormatter(
+				'RelativeTimeFormat',
+				formatOptions,
+				(locale) => new Intl.RelativeTimeFormat(locale, formatOptions)
+			)
+
+			return formatter.format(Math.round(seconds / RELATIVE_TIME_UNIT_SECONDS[selectedUnit]), selectedUnit)
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: 'Failed to format relative time', value, error })
+			}
+			// Fallback to basic formatting
+			return String(value)
+		}
+	}
+
+	/**
+	 * Formats a date with the current locale and the configured time zone, falling back to the raw value on errors.
+	 * @param value - The date to format, as a Date, timestamp or date string
+	 * @param options - The Intl.DateTimeFormat options
+	 * @param errorMessage - The message logged when formatting fails
+	 * @returns The formatted string
+	 */
+	private formatDateTimeValue(
+		value: Date | number | string,
+		options: Intl.DateTimeFormatOptions,
+		errorMessage: string
+	): string {
+		try {
+			const formatterOptions: Intl.DateTimeFormatOptions = { timeZone: this._timeZone, ...options }
+			const formatter = this.getFormatter(
+				'DateTimeFormat',
+				formatterOptions,
+				(locale) => new Intl.DateTimeFormat(locale, formatterOptions)
+			)
+			return formatter.format(this.toDate(value))
+		} catch (error) {
+			if (this._showLogs) {
+				console.error({ message: errorMessage, value, error })
+			}
+			// Fallback to basic toString
+			return String(value)
+		}
+	}
+
+	/**
+	 * Gets a cached Intl formatter for the current locale, creating and caching it on the first call.
+	 * Formatters are keyed by type, locale and serialized options, and shared by all Intl helpers.
+	 * The least recently used formatter is evicted once the cache holds formatterCacheSize entries.
+	 * @param type - The formatter type, e.g. 'NumberFormat'
+	 * @param options - The formatter options
+	 * @param create - Creates the formatter for a locale
+	 * @returns The cached or newly created formatter
+	 */
+	private getFormatter<T>(type: string, options: object | undefined, create: (locale: string) => T): T {
+		if (this._formatterCacheSize <= 0) {
+			return create(this._currentLocale)
+		}
+
+		const cacheKey = `${type}:${this._currentLocale}:${JSON.stringify(options ?? {})}`
+		const cachedFormatter = this._formatters.get(cacheKey) as T | undefined
+
+		if (cachedFormatter) {
+			// Move the formatter to the end to mark it as recently used
+			this._formatters.delete(cacheKey)
+			this._formatters.set(cacheKey, cachedFormatter)
+			return cachedFormatter
+		}
+
+		const formatter = create(this._currentLocale)
+		this._formatters.set(cacheKey, formatter)
+
+		if (this._formatters.size > this._formatterCacheSize) {
+			this._formatters.delete(this._formatters.keys().next().value as string)
+		}
+
+		return formatter
+	}
+
+	/**
+	 * Converts a Date, timestamp or date string to a Date.
+	 * @param value - The value to convert
+	 * @returns The Date, throws a RangeError if the value is not a valid date
+	 */
+	private toDate(value: Date | number | string): Date {
+		const date = value instanceof Date ? value : new Date(value)
+
+		if (Number.isNaN(date.getTime())) {
+			throw new RangeError(`Invalid date: ${String(value)}`)
+		}
+
+		return date
+	}
+
+	/**
+	 * Splits a number of milliseconds into days, hours, minutes and seconds.
+	 * @param milliseconds - The duration in milliseconds
+	 * @returns The duration parts
+	 */
+	private splitDuration(milliseconds: number): Duration {
+		let remainingSeconds = Math.round(milliseconds / 1000)
+		const parts: Duration = {}
+
+		for (const [key, unitSeconds] of [
+			['days', RELATIVE_TIME_UNIT_SECONDS.day],
+			['hours', RELATIVE_TIME_UNIT_SECONDS.hour],
+			['minutes', RELATIVE_TIME_UNIT_SECONDS.minute],
+			['seconds', RELATIVE_TIME_UNIT_SECONDS.second],
+		] as [keyof Duration, number][]) {
+			parts[key] = Math.trunc(remainingSeconds / unitSeconds)
+			remainingSeconds -= (parts[key] as number) * unitSeconds
+		}
+
+		return parts
+	}
+
+	/**
+	 * Picks the largest unit in which a duration is at least one.
+	 * @param seconds - The signed duration in seconds
+	 * @returns The relative time unit
+	 */
+	private selectRelativeTimeUnit(seconds: number): Intl.RelativeTimeFormatUnit {
+		const absoluteSeconds = Math.abs(seconds)
+		const units: Intl.RelativeTimeFormatUnit[] = ['year', 'month', 'week', 'day', 'hour', 'minute']
+
+		return units.find((unit) => absoluteSeconds >= RELATIVE_TIME_UNIT_SECONDS[unit]) ?? 'second'
+	}
+
 	/**
 	 * Gets the text direction for the current locale.
 	 * Returns 'rtl' for right-to-left languages, 'ltr' otherwise.
@@ -1422,8 +3471,8 @@ export default class I18XS {
 		}
 
 		if (typeof obj === 'object' && obj !== null) {
-			// Check if it's a pluralization object (has zero, one, two, other)
-			if ('zero' in obj || 'one' in obj || 'two' in obj || 'other' in obj) {
+			// Check if it's a select-variant or pluralization object (has a plural category or an exact-value key)
+			if (this.isSelectObject(obj) || isPluralLocalization(obj)) {
 				if (prefix) {
 					keys.add(prefix)
 				}
@@ -0,0 +1,200 @@
+import { flattenLocalization, isSafeKey, setLocalizationPath } from '../helpers'
+import { Localization } from '../types/Localization'
+import { ResourceFileOptions } from '../types/ResourceFileOptions'
+import { XmlElement } from '../types/XmlElement'
+
+import { fromPrintf, toPrintfSegments } from './printf'
+import { escapeXml, getXmlText, parseXml } from './xml'
+
+// A single printf conversion, replaced by the argument name of its <xliff:g> annotation
+const CONVERSION_PATTERN = /%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?[a-zA-Z@]/
+
+/**
+ * Resolves the escapes (`\'`, `\"`, `\n`, `\uXXXX`) and double-quoted sections of an Android string resource,
+ * and collapses the whitespace outside quotes like aapt does.
+ *
+ * @param text - The raw resource text.
+ * @returns The resource value.
+ */
+function unescapeAndroid(text: string): string {
+	let value = ''
+	let quoted = false
+	let pendingSpace = false
+
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index]
+
+		if (char === '"') {
+			quoted = !quoted
+			continue
+		}
+
+		if (!quoted && /\s/.test(char)) {
+			pendingSpace = true
+			continue
+		}
+
+		if (pendingSpace && value) value += ' '
+		pendingSpace = false
+
+		if (char !== '\\' || index + 1 === text.length) {
+			value += char
+			continue
+		}
+
+		const escaped = text[++index]
+		if (escaped === 'u') {
+			value += String.fromCharCode(parseInt(text.slice(index + 1, index + 5), 16))
+			index += 4
+		} else {
+			value += ({ n: '\n', t: '\t' } as Record<string, string>)[escaped] ?? escaped
+		}
+	}
+
+	return value
+}
+
+/**
+ * Reads an Android string resource or plural item as a message, turning its printf placeholders into named
+ * arguments. Placeholders annotated with `<xliff:g id="name">` keep their name.
+ *
+ * @param element - The string or item element.
+ * @param getName - Gets the argument name of an unannotated placeholder position.
+ * @returns The message.
+ */
+function readAndroidText(element: XmlElement, getName: (position: number) => string): string {
+	const text = element.children
+		.map((child) => {
+			if (typeof child === 'string') return child
+
+			const { id } = child.attributes
+			const isAnnotation = child.name.replace(/^[\w.-]+:/, '') === 'g' && id
+			return isAnnotation ? getXmlText(child).replace(CONVERSION_PATTERN, `{${id}}`) : getXmlText(child)
+		})
+		.join('')
+
+	return fromPrintf(unescapeAndroid(text), getName)
+}
+
+/**
+ * Renders a message as Android string resource text: arguments become positional printf placeholders annotated with
+ * `<xliff:g>`, quotes, apostrophes and line breaks are escaped, and messages whose whitespace aapt would collapse
+ * are double-quoted.
+ *
+ * @param message - The message.
+ * @param names - The argument names already numbered, e.g. ['count'] in plural items.
+ * @returns The resource text.
+ */
+function renderAndroidText(message: string, names: string[] = []): string {
+	const text = toPrintfSegments(message, { string: 's', integer: 'd' }, names)
+		.map((segment) => {
+			if (typeof segment !== 'string') {
+				return `<xliff:g id="${escapeXml(segment.name)}">${segment.conversion}</xliff:g>`
+			}
+
+			return escapeXml(
+				segment
+					.replace(/\\/g, '\\\\')
+					.replace(/'/g, '\\\'')
+					.replace(/"/g, '\\"')
+					.replace(/\n/g, '\\n')
+					.replace(/\t/g, '\\t')
+			)
+		})
+		.join('')
+		.replace(/^[@?]/, '\\$&')
+
+	return /^\s|\s$|\s\s/.test(message) ? `"${text}"` : text
+}
+
+/**
+ * Parses an Android `strings.xml` resource file. `<string>` resources become messages and `<plurals>` become
+ * plural objects, names are nested on the key separator, and printf placeholders become named arguments:
+ * annotated placeholders (`<xliff:g id="name">%1$s</xliff:g>`) keep their name, the first placeholder of plural
+ * items becomes `{count}` and the others `{arg1}`, `{arg2}`...
+ *
+ * @param content - The resource file.
+ * @param options - The separator of nested keys in resource names, defaults to '.'.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} When the document is not a well-formed resource file.
+ *
+ * @example
+ * parseAndroidStrings('<resources><plurals name="cart.items"><item quantity="one">%d item</item></plurals></resources>')
+ * // { cart: { items: { one: '{count} item' } } }
+ */
+export function parseAndroidStrings(content: string, { keySeparator = '.' }: ResourceFileOptions = {}): Localization {
+	const resources = parseXml(content)
+	const localization: Localization = {}
+
+	if (resources.name !== 'resources') {
+		throw new SyntaxError(`Expected a <resources> root element, found <${resources.name}>`)
+	}
+
+	for (const resource of resources.children) {
+		if (typeof resource === 'string' || !resource.attributes.name) continue
+
+		if (resource.name === 'string') {
+			const value = readAndroidText(resource, (position) => `arg${position}`)
+			setLocalizationPath(localization, resource.attributes.name, value, keySeparator)
+		} else if (resource.name === 'plurals') {
+			const plural: Localization = {}
+
+			for (const item of resource.children) {
+				if (typeof item === 'string' || item.name !== 'item' || !item.attributes.quantity) continue
+				if (!isSafeKey(item.attributes.quantity)) continue
+				plural[item.attributes.quantity] = readAndroidText(item, (position) => (position === 1 ? 'count' : `arg${position}`))
+			}
+
+			setLocalizationPath(localization, resource.attributes.name, plural, keySeparator)
+		}
+	}
+
+	return localization
+}
+
+/**
+ * Serializes a localization to an Android `strings.xml` resource file. Messages become `<string>` resources and
+ * plural objects `<plurals>` (exact-value forms like `=0` have no Android equivalent and are left out), key paths are
+ * joined with the key separator, and arguments become positional printf placeholders annotated with `<xliff:g>`,
+ * `{count}` being the first placeholder of plural items. Ordinal plural objects (`"__type__": "ordinal"`) are skipped
+ * with a warning, as Android plurals are cardinal.
+ *
+ * @param localization - The localization to serialize.
+ * @param options - The separator of nested keys in resource names, defaults to '.'.
+ * @returns The resource file.
+ *
+ * @example
+ * stringifyAndroidStrings({ cart: { title: 'Cart of {name}' } }, { keySeparator: '_' })
+ * // <string name="cart_title">Cart of <xliff:g id="name">%1$s</xliff:g></string>
+ */
+export function stringifyAndroidStrings(
+	localization: Localization,
+	{ keySeparator = '.' }: ResourceFileOptions = {}
+): string {
+	const lines = [
+		'<?xml version="1.0" encoding="utf-8"?>',
+		'<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">',
+	]
+
+	for (const [key, value] of flattenLocalization(localization, keySeparator)) {
+		if (typeof value === 'string') {
+			lines.push(`\t<string name="${escapeXml(key)}">${renderAndroidText(value)}</string>`)
+			continue
+		}
+
+		// Android plurals only use cardinal rules, which would turn 2nd into 2th
+		if (value.__type__ === 'ordinal') {
+			console.warn({ message: 'Skipped ordinal plural object not supported by Android resources', key })
+			continue
+		}
+
+		lines.push(`\t<plurals name="${escapeXml(key)}">`)
+		for (const [quantity, form] of Object.entries(value)) {
+			if (typeof form !== 'string' || quantity.startsWith('__') || quantity.startsWith('=')) continue
+			lines.push(`\t\t<item quantity="${quantity}">${renderAndroidText(form, ['count'])}</item>`)
+		}
+		lines.push('\t</plurals>')
+	}
+
+	return `${[...lines, '</resources>'].join('\n')}\n`
+}
@@ -0,0 +1,252 @@
+import { PLURAL_CATEGORIES, flattenLocalization, isSafeKey, setLocalizationPath } from '../helpers'
+import { Localization } from '../types/Localization'
+import { ResourceFileOptions } from '../types/ResourceFileOptions'
+import { XmlElement } from '../types/XmlElement'
+
+import { fromPrintf, toPrintfSegments } from './printf'
+import { escapeXml, getXmlText, parseXml } from './xml'
+
+// Whitespace and comments between the entries of a .strings file
+const SEPARATOR_PATTERN = /\s+|\/\*[\s\S]*?\*\/|\/\/[^\n]*/y
+
+// Placeholder names listed in the comment of a .strings entry, e.g. /* {name} = %1$@, {count} = %2$ld */
+const PLACEHOLDER_COMMENT_PATTERN = /\{([\w.]+)\}\s*=\s*%(\d+)\$/g
+
+/**
+ * Converts a message into an Apple format string, with `%@` for string arguments and `%ld` for integer arguments.
+ *
+ * @param message - The message.
+ * @param names - The argument names already numbered, updated with the new ones.
+ * @returns The format string.
+ */
+function toAppleFormat(message: string, names: string[] = []): string {
+	return toPrintfSegments(message, { string: '@', integer: 'ld' }, names)
+		.map((segment) => (typeof segment === 'string' ? segment : segment.conversion))
+		.join('')
+}
+
+/**
+ * Reads a property list value: dictionaries become objects, arrays become lists and other values their text.
+ * Dictionary keys reaching the prototype of an object (`__proto__`) are skipped.
+ *
+ * @param element - The plist value element.
+ * @returns The value.
+ */
+function readPlistValue(element: XmlElement): unknown {
+	const children = element.children.filter((child): child is XmlElement => typeof child !== 'string')
+
+	if (element.name === 'array') return children.map(readPlistValue)
+	if (element.name !== 'dict') return getXmlText(element)
+
+	const dictionary: Record<string, unknown> = {}
+	for (let index = 0; index + 1 < children.length; index += 2) {
+		const key = getXmlText(children[index])
+		if (isSafeKey(key)) dictionary[key] = readPlistValue(children[index + 1])
+	}
+
+	return dictionary
+}
+
+/**
+ * Parses an iOS/macOS `.strings` file (`"key" = "value";` entries with comments). Keys are nested on the key
+ * separator, and printf placeholders become named arguments: the names listed in the comment before an entry
+ * (`{name} = %1$@`, as written by `stringifyAppleStrings`) are kept, other placeholders become `{arg1}`, `{arg2}`...
+ *
+ * @param content - The .strings file.
+ * @param options - The separator of nested keys, defaults to '.'.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} When an entry is malformed.
+ *
+ * @example
+ * parseAppleStrings('/* {name} = %1$@ *\/\n"cart.title" = "Cart of %1$@";')
+ * // { cart: { title: 'Cart of {name}' } }
+ */
+export function parseAppleStrings(content: string, { keySeparator = '.' }: ResourceFileOptions = {}): Localization {
+	const localization: Localization = {}
+	let position = 0
+	let comment = ''
+
+	const skipSeparators = (): void => {
+		SEPARATOR_PATTERN.lastIndex = position
+		for (let match = SEPARATOR_PATTERN.exec(content); match; match = SEPARATOR_PATTERN.exec(content)) {
+			if (match[0].startsWith('/')) comment = match[0]
+			position = SEPARATOR_PATTERN.lastIndex
+		}
+	}
+
+	const expect = (token: string): void => {
+		skipSeparators()
+		if (content[position] !== token) {
+			throw new SyntaxError(`Expected "${token}" at offset ${position} of .strings file`)
+		}
+		position++
+	}
+
+	const readString = (): string => {
+		skipSeparators()
+		const match = /"((?:[^"\\]|\\.)*)"|([\w.-]+)/y
+		match.lastIndex = position
+		const [source, quoted, unquoted] = match.exec(content) ?? []
+
+		if (!source) throw new SyntaxError(`Expected a string at offset ${position} of .strings file`)
+		position += source.length
+
+		return unquoted ?? quoted.replace(/\\([Uu][\da-fA-F]{4}|.)/g, (_, escaped: string) => {
+			if (escaped.length > 1) return String.fromCharCode(parseInt(escaped.slice(1), 16))
+			return ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped
+		})
+	}
+
+	for (skipSeparators(); position < content.length; skipSeparators()) {
+		const key = readString()
+		expect('=')
+		const value = readString()
+		expect(';')
+
+		const names: Record<number, string> = {}
+		for (const [, name, namePosition] of comment.matchAll(PLACEHOLDER_COMMENT_PATTERN)) {
+			names[Number(namePosition)] = name
+		}
+
+		setLocalizationPath(localization, key, fromPrintf(value, (index) => names[index] ?? `arg${index}`), keySeparator)
+		comment = ''
+	}
+
+	return localization
+}
+
+/**
+ * Serializes the messages of a localization to an iOS/macOS `.strings` file. Key paths are joined with the key
+ * separator, arguments become positional placeholders (`%1$@`, `%2$ld` for `{count}`) listed in a comment so their
+ * names survive a round trip. Plural objects are left out, they belong to the `.stringsdict` file.
+ *
+ * @param localization - The localization to serialize.
+ * @param options - The separator of nested keys, defaults to '.'.
+ * @returns The .strings file.
+ *
+ * @example
+ * stringifyAppleStrings({ cart: { title: 'Cart of {name}' } })
+ * // '/* {name} = %1$@ *\/\n"cart.title" = "Cart of %1$@";\n'
+ */
+export function stringifyAppleStrings(localization: Localization, { keySeparator = '.' }: ResourceFileOptions = {}): string {
+	const escape = (value: string): string =>
+		value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')
+
+	const entries = flattenLocalization(localization, keySeparator).flatMap(([key, value]) => {
+		if (typeof value !== 'string') return []
+
+		const names: string[] = []
+		const format = toAppleFormat(value, names)
+		const placeholders = names.map((name, index) => {
+			const [conversion] = new RegExp(`%${index + 1}\\$\\w+`).exec(format) ?? [`%${index + 1}$@`]
+			return `{${name}} = ${conversion}`
+		})
+		const line = `"${escape(key)}" = "${escape(format)}";`
+
+		return [placeholders.length ? `/* ${placeholders.join(', ')} */\n${line}` : line]
+	})
+
+	return `${entries.join('\n\n')}\n`
+}
+
+/**
+ * Parses an iOS/macOS `.stringsdict` file. Entries whose format is a single plural variable (`%#@count@`, with
+ * optional text around it) become plural objects, the first placeholder of the forms becoming `{count}` and the
+ * others `{arg2}`, `{arg3}`... Keys are nested on the key separator.
+ *
+ * @param content - The .stringsdict property list.
+ * @param options - The separator of nested keys, defaults to '.'.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} When the document is not a property list with a root dictionary.
+ *
+ * @example
+ * parseStringsDict(readFileSync('./en.lproj/Localizable.stringsdict', 'utf8'))
+ * // { cart: { items: { one: '{count} item', other: '{count} items' } } }
+ */
+export function parseStringsDict(content: string, { keySeparator = '.' }: ResourceFileOptions = {}): Localization {
+	const plist = parseXml(content)
+	const root = plist.children.find((child): child is XmlElement => typeof child !== 'string')
+	const localization: Localization = {}
+
+	if (plist.name !== 'plist' || root?.name !== 'dict') {
+		throw new SyntaxError('Expected a property list with a root dictionary')
+	}
+
+	for (const [key, entry] of Object.entries(readPlistValue(root) as Record<string, Record<string, unknown>>)) {
+		const format = entry?.NSStringLocalizedFormatKey
+		const variables = typeof format === 'string' ? [...format.matchAll(/%#@(\w+)@/g)] : []
+		const rule = variables.length === 1 ? (entry[variables[0][1]] as Record<string, unknown>) : undefined
+
+		if (typeof format !== 'string' || typeof rule !== 'object') continue
+
+		const [prefix, suffix] = format.split(variables[0][0])
+		const plural: Localization = {}
+
+		for (const category of PLURAL_CATEGORIES) {
+			const form = rule[category]
+			if (typeof form !== 'string') continue
+
+			plural[category] = fromPrintf(`${prefix}${form}${suffix}`, (index) => (index === 1 ? 'count' : `arg${index}`))
+		}
+
+		if (Object.keys(plural).length) setLocalizationPath(localization, key, plural, keySeparator)
+	}
+
+	return localization
+}
+
+/**
+ * Serializes the plural objects of a localization to an iOS/macOS `.stringsdict` file, each with a `count` plural
+ * variable whose forms use `%1$ld` for `{count}` and positional placeholders for other arguments. Messages are
+ * left out, they belong to the `.strings` file, and so are exact-value forms like `=0`. Ordinal plural objects
+ * (`"__type__": "ordinal"`) are skipped with a warning, as `.stringsdict` plural rules are cardinal.
+ *
+ * @param localization - The localization to serialize.
+ * @param options - The separator of nested keys, defaults to '.'.
+ * @returns The .stringsdict property list.
+ *
+ * @example
+ * stringifyStringsDict({ cart: { items: { one: 'One item', other: '{count} items' } } })
+ */
+export function stringifyStringsDict(localization: Localization, { keySeparator = '.' }: ResourceFileOptions = {}): string {
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+		'<plist version="1.0">',
+		'<dict>',
+	]
+
+	for (const [key, value] of flattenLocalization(localization, keySeparator)) {
+		if (typeof value === 'string') continue
+
+		// NSStringPluralRuleType only applies cardinal rules, which would turn 2nd into 2th
+		if (value.__type__ === 'ordinal') {
+			console.warn({ message: 'Skipped ordinal plural object not supported by .stringsdict files', key })
+			continue
+		}
+
+		lines.push(
+			`\t<key>${escapeXml(key)}</key>`,
+			'\t<dict>',
+			'\t\t<key>NSStringLocalizedFormatKey</key>',
+			'\t\t<string>%#@count@</string>',
+			'\t\t<key>count</key>',
+			'\t\t<dict>',
+			'\t\t\t<key>NSStringFormatSpecTypeKey</key>',
+			'\t\t\t<string>NSStringPluralRuleType</string>',
+			'\t\t\t<key>NSStringFormatValueTypeKey</key>',
+			'\t\t\t<string>ld</string>'
+		)
+
+		for (const category of PLURAL_CATEGORIES) {
+			const form = value[category]
+			if (typeof form !== 'string') continue
+
+			lines.push(`\t\t\t<key>${category}</key>`, `\t\t\t<string>${escapeXml(toAppleFormat(form, ['count']))}</string>`)
+		}
+
+		lines.push('\t\t</dict>', '\t</dict>')
+	}
+
+	return `${[...lines, '</dict>', '</plist>'].join('\n')}\n`
+}
@@ -0,0 +1,112 @@
+import { flattenLocalization, setLocalizationPath } from '../helpers'
+import { Localization } from '../types/Localization'
+import { ResourceFileOptions } from '../types/ResourceFileOptions'
+
+// A whole-message ICU plural on the count argument, e.g. {count, plural, one{One item} other{{count} items}}
+const ICU_PLURAL_PATTERN = /^\{\s*count\s*,\s*(plural|selectordinal)\s*,([\s\S]*)\}$/
+
+// Named arguments of a message, used to declare the placeholders of an ARB message
+const ARGUMENT_PATTERN = /\{\{\s*([\w.]+)[^{}]*\}\}|\{\s*([\w.]+)\s*(?:[|,][^{}]*)?\}/g
+
+/**
+ * Converts a whole-message ICU plural on the count argument into a plural object, with `#` replaced by `{count}`.
+ *
+ * @param message - The ARB message.
+ * @returns The plural object, or undefined when the message isn't a whole-message plural.
+ */
+function parseIcuPlural(message: string): Localization | undefined {
+	const match = ICU_PLURAL_PATTERN.exec(message.trim())
+	if (!match) return undefined
+
+	const [, format, options] = match
+	const plural: Localization = format === 'selectordinal' ? { __type__: 'ordinal' } : {}
+	let position = 0
+
+	while (options.slice(position).trim()) {
+		const selector = /^\s*(=?\w+)\s*\{/.exec(options.slice(position))
+		if (!selector) return undefined
+
+		let index = position + selector[0].length
+		const start = index
+		for (let depth = 1; depth; index++) {
+			if (index >= options.length) return undefined
+			if (options[index] === '{') depth++
+			if (options[index] === '}') depth--
+		}
+
+		plural[selector[1]] = options.slice(start, index - 1).replace(/#/g, '{count}')
+		position = index
+	}
+
+	return plural.other === undefined ? undefined : plural
+}
+
+/**
+ * Converts a plural object into a whole-message ICU plural on the count argument.
+ *
+ * @param plural - The plural object.
+ * @returns The ICU plural message, e.g. `{count, plural, one{One item} other{{count} items}}`.
+ */
+function stringifyIcuPlural(plural: Localization): string {
+	const options = Object.entries(plural)
+		.filter(([category]) => !category.startsWith('__'))
+		.map(([category, form]) => `${category}{${form}}`)
+
+	return `{count, ${plural.__type__ === 'ordinal' ? 'selectordinal' : 'plural'}, ${options.join(' ')}}`
+}
+
+/**
+ * Parses a Flutter Application Resource Bundle (`.arb`). Metadata entries (`@key`, `@@locale`) are skipped, keys are
+ * nested on the key separator, and whole-message ICU plurals on `count` become plural objects.
+ *
+ * @param content - The ARB document.
+ * @param options - The separator of nested keys in resource names, defaults to '.'.
+ * @returns The parsed localization.
+ *
+ * @example
+ * parseArb('{ "@@locale": "en", "cart_items": "{count, plural, one{One item} other{{count} items}}" }', { keySeparator: '_' })
+ * // { cart: { items: { one: 'One item', other: '{count} items' } } }
+ */
+export function parseArb(content: string, { keySeparator = '.' }: ResourceFileOptions = {}): Localization {
+	const resources = JSON.parse(content) as Record<string, unknown>
+	const localization: Localization = {}
+
+	for (const [key, value] of Object.entries(resources)) {
+		if (key.startsWith('@') || typeof value !== 'string') continue
+
+		setLocalizationPath(localization, key, parseIcuPlural(value) ?? value, keySeparator)
+	}
+
+	return localization
+}
+
+/**
+ * Serializes a localization to a Flutter Application Resource Bundle (`.arb`). Key paths are joined with the key
+ * separator (Flutter needs resource names that are valid Dart identifiers, e.g. with `keySeparator: '_'`),
+ * plural objects become ICU plurals on `count` and the placeholders of each message are declared in its metadata.
+ *
+ * @param localization - The localization to serialize.
+ * @param options - The locale written as `@@locale` and the separator of nested keys, defaults to '.'.
+ * @returns The ARB document.
+ *
+ * @example
+ * stringifyArb({ cart: { title: 'Cart of {name}' } }, { locale: 'en', keySeparator: '_' })
+ * // { "@@locale": "en", "cart_title": "Cart of {name}", "@cart_title": { "placeholders": { "name": { "type": "String" } } } }
+ */
+export function stringifyArb(localization: Localization, { locale, keySeparator = '.' }: ResourceFileOptions = {}): string {
+	const resources: Record<string, unknown> = locale ? { '@@locale': locale } : {}
+
+	for (const [key, value] of flattenLocalization(localization, keySeparator)) {
+		const message = typeof value === 'string' ? value : stringifyIcuPlural(value)
+		const placeholders: Record<string, { type: string }> = typeof value === 'string' ? {} : { count: { type: 'num' } }
+
+		for (const [, delimitedName, name = delimitedName] of message.matchAll(ARGUMENT_PATTERN)) {
+			placeholders[name] = { type: name === 'count' ? 'num' : 'String' }
+		}
+
+		resources[key] = message
+		if (Object.keys(placeholders).length) resources[`@${key}`] = { placeholders }
+	}
+
+	return `${JSON.stringify(resources, null, 2)}\n`
+}
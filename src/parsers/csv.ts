@@ -0,0 +1,239 @@
+import { PLURAL_CATEGORIES, isPluralLocalization, isSafeKey, setLocalizationPath } from '../helpers'
+import { CsvDocument } from '../types/CsvDocument'
+import { CsvOptions } from '../types/CsvOptions'
+import { Localization } from '../types/Localization'
+
+/**
+ * Splits a CSV document into rows of cells. Quoted cells may contain the delimiter, line breaks and doubled quotes,
+ * and a leading byte order mark is ignored.
+ *
+ * @param content - The CSV document.
+ * @param delimiter - The cell delimiter.
+ * @returns The rows of cells.
+ * @throws {SyntaxError} When a quoted cell isn't closed.
+ */
+function parseRows(content: string, delimiter: string): string[][] {
+	const text = content.replace(/^\uFEFF/, '')
+	const rows: string[][] = []
+	let row: string[] = []
+	let cell = ''
+	let quoted = false
+
+	for (let index = 0; index < text.length; index++) {
+		const character = text[index]
+
+		if (quoted) {
+			if (character !== '"') {
+				cell += character
+			} else if (text[index + 1] === '"') {
+				cell += '"'
+				index++
+			} else {
+				quoted = false
+			}
+		} else if (character === '"' && cell === '') {
+			quoted = true
+		} else if (character === delimiter) {
+			row.push(cell)
+			cell = ''
+		} else if (character === '\n' || character === '\r') {
+			if (character === '\r' && text[index + 1] === '\n') index++
+			rows.push([...row, cell])
+			row = []
+			cell = ''
+		} else {
+			cell += character
+		}
+	}
+
+	if (quoted) throw new SyntaxError('Unterminated quoted cell in CSV document')
+	if (cell || row.length) rows.push([...row, cell])
+
+	return rows
+}
+
+/**
+ * Quotes a cell when it contains the delimiter, a quote or a line break.
+ *
+ * @param value - The cell value.
+ * @param delimiter - The cell delimiter.
+ * @returns The CSV cell.
+ */
+function escapeCell(value: string, delimiter: string): string {
+	return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Gets the value at a key path, trying the path as a flat key before navigating nested groups.
+ *
+ * @param localization - The localization.
+ * @param path - The key path, e.g. 'cart.title'.
+ * @returns The message or object at the path, or undefined.
+ */
+function getPathValue(localization: Localization, path: string): string | Localization | undefined {
+	if (path in localization) return localization[path]
+
+	return path
+		.split('.')
+		.reduce<string | Localization | undefined>(
+			(value, segment) => (typeof value === 'object' ? value[segment] : undefined),
+			localization
+		)
+}
+
+/**
+ * Lists the leaf messages of a plural or select object by their key path suffix, marker keys included.
+ *
+ * @param value - The object.
+ * @param prefix - The suffix of the object.
+ * @returns The suffixes with their message, e.g. `[['one', 'One item'], ['other', '{count} items']]`.
+ */
+function getLeaves(value: Localization, prefix: string = ''): [string, string][] {
+	return Object.entries(value).flatMap(([key, child]): [string, string][] => {
+		const suffix = prefix ? `${prefix}.${key}` : key
+		return typeof child === 'string' ? [[suffix, child]] : getLeaves(child, suffix)
+	})
+}
+
+/**
+ * Gets the plural categories a locale uses for cardinal and ordinal numbers.
+ *
+ * @param locale - The locale.
+ * @returns The plural categories, or undefined for unknown locales.
+ */
+function getUsedPluralCategories(locale: string): string[] | undefined {
+	try {
+		return ['cardinal', 'ordinal'].flatMap(
+			(type) => new Intl.PluralRules(locale, { type: type as Intl.PluralRuleType }).resolvedOptions().pluralCategories
+		)
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Serializes localizations to a CSV (or TSV) spreadsheet with a key column and one column per locale. Each key path
+ * gets a row, and plural and select objects are split into one row per form with a suffixed key path (`items.one`,
+ * `items.other`), the forms of every locale being listed. Messages missing from a locale are left empty.
+ *
+ * @param localizations - The localizations keyed by locale, in column order.
+ * @param keys - The key paths of the messages and plural objects, in row order.
+ * @param options - The cell delimiter, defaults to ','.
+ * @returns The CSV document.
+ *
+ * @example
+ * stringifyCsv({ en: { cart: { title: 'Cart' } }, ar: { cart: { title: 'السلة' } } }, ['cart.title'])
+ * // 'key,en,ar\ncart.title,Cart,السلة\n'
+ */
+export function stringifyCsv(
+	localizations: Record<string, Localization>,
+	keys: string[],
+	{ delimiter = ',' }: CsvOptions = {}
+): string {
+	const locales = Object.keys(localizations)
+	const rows = [['key', ...locales]]
+
+	for (const key of keys) {
+		const values = locales.map((locale) => getPathValue(localizations[locale], key))
+
+		if (values.some((value) => typeof value === 'string')) {
+			rows.push([key, ...values.map((value) => (typeof value === 'string' ? value : ''))])
+		}
+
+		const forms = values.map((value) => new Map(typeof value === 'object' ? getLeaves(value) : []))
+		const suffixes = new Set(forms.flatMap((form) => [...form.keys()]))
+
+		for (const suffix of suffixes) {
+			rows.push([`${key}.${suffix}`, ...forms.map((form) => form.get(suffix) ?? '')])
+		}
+	}
+
+	return `${rows.map((row) => row.map((cell) => escapeCell(cell, delimiter)).join(delimiter)).join('\n')}\n`
+}
+
+/**
+ * Parses a CSV (or TSV) spreadsheet with a key column and one column per locale, the locales being read from the
+ * header row. Key paths are nested so suffixed rows (`items.one`, `items.other`) form plural objects again. Empty
+ * cells are reported as missing, except for plural forms the plural rules of the locale don't use, and marker keys
+ * (`__type__`) left empty are copied from the other locales. Rows whose key path reaches the prototype of an object
+ * (`__proto__`) are skipped.
+ *
+ * @param content - The CSV document.
+ * @param options - The cell delimiter, defaults to ','.
+ * @returns The localizations keyed by locale and the key paths missing from each locale.
+ * @throws {SyntaxError} When the document has no locale column or a quoted cell isn't closed.
+ *
+ * @example
+ * parseCsv('key,en,ar\ncart.title,Cart,\n')
+ * // { localizations: { en: { cart: { title: 'Cart' } }, ar: {} }, missing: { ar: ['cart.title'] } }
+ */
+export function parseCsv(content: string, { delimiter = ',' }: CsvOptions = {}): CsvDocument {
+	const [header = [], ...rows] = parseRows(content, delimiter)
+	const locales = header.slice(1).map((locale) => locale.trim())
+
+	if (!locales.length || locales.some((locale) => !locale)) {
+		throw new SyntaxError('Expected a header row with a key column and one column per locale')
+	}
+
+	const localizations: Record<string, Localization> = Object.fromEntries(locales.map((locale) => [locale, {}]))
+	const missing: Record<string, string[]> = {}
+	const entries = rows
+		.map(([key = '', ...cells]): [string, string[]] => [key.trim(), cells])
+		.filter(([key]) => key && key.split('.').every(isSafeKey))
+
+	// Rows whose siblings are all plural categories are plural forms, e.g. items.one and items.other
+	const siblings = new Map<string, Localization>()
+	for (const [key] of entries) {
+		const separator = key.lastIndexOf('.')
+		if (separator <= 0) continue
+
+		const parent = siblings.get(key.slice(0, separator)) ?? {}
+		parent[key.slice(separator + 1)] = ''
+		siblings.set(key.slice(0, separator), parent)
+	}
+
+	const isUnusedPluralForm = (key: string, locale: string): boolean => {
+		const separator = key.lastIndexOf('.')
+		const category = key.slice(separator + 1)
+		const categories = getUsedPluralCategories(locale)
+
+		return (
+			separator > 0 &&
+			PLURAL_CATEGORIES.includes(category as Intl.LDMLPluralRule) &&
+			isPluralLocalization(siblings.get(key.slice(0, separator))) &&
+			!!categories &&
+			!categories.includes(category)
+		)
+	}
+
+	for (const [key, cells] of entries) {
+		const isMarker = key.slice(key.lastIndexOf('.') + 1).startsWith('__')
+
+		locales.forEach((locale, index) => {
+			const value = cells[index] ?? ''
+
+			if (value) {
+				setLocalizationPath(localizations[locale], key, value)
+			} else if (!isMarker && !isUnusedPluralForm(key, locale)) {
+				missing[locale] ??= []
+				missing[locale].push(key)
+			}
+		})
+	}
+
+	// Marker keys (`__type__`) aren't translated, objects left without one get the marker of the other locales
+	for (const [key, cells] of entries) {
+		const separator = key.lastIndexOf('.')
+		const marker = key.slice(separator + 1)
+		const value = cells.slice(0, locales.length).find(Boolean)
+
+		if (separator <= 0 || !marker.startsWith('__') || !value) continue
+
+		locales.forEach((locale, index) => {
+			const parent = getPathValue(localizations[locale], key.slice(0, separator))
+			if (!cells[index] && typeof parent === 'object') parent[marker] = value
+		})
+	}
+
+	return { localizations, missing }
+}
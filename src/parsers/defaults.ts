@@ -0,0 +1,21 @@
+import { LocalizationParser } from '../types/LocalizationParser'
+
+import { parseAppleStrings, parseStringsDict } from './apple'
+import { parseArb } from './arb'
+import { parsePo } from './gettext'
+import { parseJson5 } from './json5'
+import { parseProperties } from './properties'
+import { parseYaml } from './yaml'
+
+// Parsers of the localization file formats available to every instance and file system backend, keyed by extension
+export const DEFAULT_PARSERS: Record<string, LocalizationParser> = {
+	'.json': (content) => JSON.parse(content),
+	'.json5': parseJson5,
+	'.yaml': parseYaml,
+	'.yml': parseYaml,
+	'.properties': parseProperties,
+	'.po': (content) => parsePo(content),
+	'.arb': (content) => parseArb(content),
+	'.strings': (content) => parseAppleStrings(content),
+	'.stringsdict': (content) => parseStringsDict(content),
+}
@@ -0,0 +1,515 @@
+import { PLURAL_CATEGORIES, isPluralLocalization, isSafeKey, setLocalizationPath } from '../helpers'
+import { Localization } from '../types/Localization'
+
+// Plural-Forms headers of common languages, other languages use the English rule
+const PLURAL_FORMS: Record<string, string> = {
+	'ar': 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+	'cs': 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+	'fr': 'nplurals=2; plural=(n > 1);',
+	'id': 'nplurals=1; plural=0;',
+	'ja': 'nplurals=1; plural=0;',
+	'ko': 'nplurals=1; plural=0;',
+	'pl': 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+	'pt': 'nplurals=2; plural=(n > 1);',
+	'pt-PT': 'nplurals=2; plural=(n != 1);',
+	'ru': 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+	'sk': 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+	'th': 'nplurals=1; plural=0;',
+	'uk': 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+	'vi': 'nplurals=1; plural=0;',
+	'zh': 'nplurals=1; plural=0;',
+}
+
+const DEFAULT_PLURAL_FORMS = 'nplurals=2; plural=(n != 1);'
+
+// Binding strength of the binary operators allowed in a plural expression
+const OPERATOR_PRECEDENCE: Record<string, number> = {
+	'||': 1,
+	'&&': 2,
+	'==': 3,
+	'!=': 3,
+	'<': 4,
+	'>': 4,
+	'<=': 4,
+	'>=': 4,
+	'+': 5,
+	'-': 5,
+	'*': 6,
+	'/': 6,
+	'%': 6,
+}
+
+// Characters of the C escape sequences allowed in PO strings
+const ESCAPE_SEQUENCES: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v' }
+
+// Extracted comment carrying a marker key of the object an entry belongs to, e.g. `#. __type__: ordinal`
+const MARKER_COMMENT_PATTERN = /^#\.\s*(__\w+__):\s*(.*)$/
+
+type GettextEntry = {
+	context?: string
+	id: string
+	idPlural?: string
+	strings: string[]
+	fuzzy: boolean
+	markers?: Record<string, string>
+}
+
+/**
+ * Compiles the C expression of a `Plural-Forms` header (`n%10==1 && n%100!=11 ? 0 : 1`) into a function.
+ *
+ * @param expression - The plural expression.
+ * @returns A function returning the plural form index of a count.
+ */
+function compilePluralExpression(expression: string): (n: number) => number {
+	const tokens = expression.match(/\d+|n|&&|\|\||[=!<>]=|[-+*/%<>!?:()]/g) ?? []
+	let position = 0
+
+	const apply = (operator: string, left: number, right: number): number => {
+		switch (operator) {
+			case '||':
+				return Number(Boolean(left || right))
+			case '&&':
+				return Number(Boolean(left && right))
+			case '==':
+				return Number(left === right)
+			case '!=':
+				return Number(left !== right)
+			case '<':
+				return Number(left < right)
+			case '>':
+				return Number(left > right)
+			case '<=':
+				return Number(left <= right)
+			case '>=':
+				return Number(left >= right)
+			case '+':
+				return left + right
+			case '-':
+				return left - right
+			case '*':
+				return left * right
+			case '/':
+				return Math.trunc(left / right)
+			default:
+				return left % right
+		}
+	}
+
+	const parsePrimary = (): ((n: number) => number) => {
+		const token = tokens[position++]
+
+		if (token === 'n') return (n) => n
+		if (/^\d+$/.test(token ?? '')) return () => Number(token)
+		if (token === '!') {
+			const operand = parsePrimary()
+			return (n) => Number(!operand(n))
+		}
+		if (token === '(') {
+			const inner = parseConditional()
+			if (tokens[position++] !== ')') {
+				throw new SyntaxError(`Unbalanced parentheses in plural expression "${expression}"`)
+			}
+			return inner
+		}
+
+		throw new SyntaxError(`Unexpected token "${token}" in plural expression "${expression}"`)
+	}
+
+	const parseBinary = (minPrecedence: number): ((n: number) => number) => {
+		let left = parsePrimary()
+
+		while (OPERATOR_PRECEDENCE[tokens[position]] >= minPrecedence) {
+			const operator = tokens[position++]
+			const evaluateLeft = left
+			const evaluateRight = parseBinary(OPERATOR_PRECEDENCE[operator] + 1)
+			left = (n) => apply(operator, evaluateLeft(n), evaluateRight(n))
+		}
+
+		return left
+	}
+
+	const parseConditional = (): ((n: number) => number) => {
+		const condition = parseBinary(1)
+		if (tokens[position] !== '?') return condition
+
+		position++
+		const whenTrue = parseConditional()
+		if (tokens[position++] !== ':') throw new SyntaxError(`Missing ":" in plural expression "${expression}"`)
+		const whenFalse = parseConditional()
+
+		return (n) => (condition(n) ? whenTrue(n) : whenFalse(n))
+	}
+
+	const evaluate = parseConditional()
+	if (position < tokens.length) {
+		throw new SyntaxError(`Unexpected token "${tokens[position]}" in plural expression "${expression}"`)
+	}
+
+	return evaluate
+}
+
+/**
+ * Gets the `Plural-Forms` header of a locale, from its exact code or its language.
+ *
+ * @param locale - The locale code, e.g. `pt-BR`.
+ * @returns The Plural-Forms header, the English rule for unknown languages.
+ *
+ * @example
+ * getPluralForms('fr-CA') // 'nplurals=2; plural=(n > 1);'
+ */
+export function getPluralForms(locale: string): string {
+	return PLURAL_FORMS[locale] ?? PLURAL_FORMS[locale.split('-')[0]] ?? DEFAULT_PLURAL_FORMS
+}
+
+/**
+ * Maps the plural form indexes of a `Plural-Forms` header onto the CLDR plural categories of a locale,
+ * by comparing the form index and the CLDR category of the counts from 0 to 1000. Forms matching no category
+ * take the remaining categories in order.
+ *
+ * @param pluralForms - The Plural-Forms header, e.g. `nplurals=2; plural=(n != 1);`.
+ * @param locale - The locale whose CLDR plural rules are used.
+ * @returns The CLDR plural category of each plural form index.
+ *
+ * @example
+ * mapPluralForms('nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);', 'cs') // ['one', 'few', 'other']
+ */
+export function mapPluralForms(pluralForms: string, locale: string): Intl.LDMLPluralRule[] {
+	const count = Number(/nplurals\s*=\s*(\d+)/.exec(pluralForms)?.[1] ?? 2)
+	const evaluate = compilePluralExpression(/plural\s*=\s*([^;]+)/.exec(pluralForms)?.[1] ?? '(n != 1)')
+	const categories: (Intl.LDMLPluralRule | undefined)[] = Array.from({ length: count }, () => undefined)
+	let rules: Intl.PluralRules
+
+	try {
+		rules = new Intl.PluralRules(locale)
+	} catch {
+		rules = new Intl.PluralRules('en')
+	}
+
+	for (let n = 0; n <= 1000 && categories.includes(undefined); n++) {
+		const index = evaluate(n)
+		const category = rules.select(n)
+
+		if (index >= 0 && index < count && categories[index] === undefined && !categories.includes(category)) {
+			categories[index] = category
+		}
+	}
+
+	const remaining = PLURAL_CATEGORIES.filter((category) => !categories.includes(category))
+	return categories.map((category) => category ?? remaining.shift() ?? 'other')
+}
+
+/**
+ * Builds a localization from gettext entries. Entries with a context use it as their key path and are nested
+ * (`errors.required` becomes `{ errors: { required } }`), entries without context use their msgid as a flat key.
+ * Plural entries become plural objects, and fuzzy or untranslated entries are skipped, as are entries whose key
+ * reaches the prototype of an object (`__proto__`). Marker keys (`__type__`) of the entries are set back on the
+ * plural object of a plural entry, or on the object holding a singular entry (e.g. the option of a select object).
+ *
+ * @param entries - The entries of the catalog, including the header entry.
+ * @param locale - The locale of the catalog, defaults to the Language header.
+ * @returns The localization.
+ */
+function buildLocalization(entries: GettextEntry[], locale?: string): Localization {
+	const header = entries.find((entry) => entry.id === '' && entry.context === undefined)
+	const headers: Record<string, string> = {}
+
+	for (const line of header?.strings[0]?.split('\n') ?? []) {
+		const separator = line.indexOf(':')
+		if (separator > 0) headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+	}
+
+	const language = locale ?? (headers['Language'] ? headers['Language'].replace(/_/g, '-') : 'en')
+	const categories = mapPluralForms(headers['Plural-Forms'] || getPluralForms(language), language)
+	const root: Localization = {}
+
+	for (const entry of entries) {
+		if (entry === header || entry.fuzzy) continue
+
+		let value: string | Localization = entry.strings[0] ?? ''
+
+		if (entry.idPlural !== undefined) {
+			const plural: Localization = {}
+			entry.strings.forEach((form, index) => {
+				if (form) plural[categories[index] ?? 'other'] = form
+			})
+			// Every plural object needs an "other" form, gettext rules without one (e.g. Russian) use the last form
+			if (Object.keys(plural).length) plural.other ??= entry.strings.filter(Boolean).pop() ?? ''
+			value = plural
+		}
+
+		if (!value || (typeof value === 'object' && !Object.keys(value).length)) continue
+
+		if (entry.context !== undefined) setLocalizationPath(root, entry.context, value)
+		else if (isSafeKey(entry.id)) root[entry.id] = value
+
+		if (!entry.markers || entry.context === undefined) continue
+
+		const path = entry.context.split('.').slice(0, entry.idPlural === undefined ? -1 : undefined)
+		const target = path.reduce<string | Localization | undefined>(
+			(object, key) => (typeof object === 'object' && Object.hasOwn(object, key) ? object[key] : undefined),
+			root
+		)
+
+		for (const [key, marker] of Object.entries(entry.markers)) {
+			if (typeof target === 'object' && isSafeKey(key)) target[key] = marker
+		}
+	}
+
+	return root
+}
+
+/**
+ * Parses a gettext `.po` catalog. Supports msgctxt, multi-line strings, escapes, plural entries mapped onto plural
+ * objects through the `Plural-Forms` header, and skips obsolete (`#~`), fuzzy and untranslated entries.
+ * Entries with a msgctxt (as written by `stringifyPo`) use it as their nested key path, others use their msgid,
+ * and marker keys written as extracted comments (`#. __type__: select`) are restored.
+ *
+ * @param content - The PO document.
+ * @param locale - The locale of the catalog, whose CLDR plural categories are used, defaults to the Language header.
+ * @returns The parsed localization.
+ *
+ * @example
+ * parsePo('msgctxt "cart.items"\nmsgid "One item"\nmsgid_plural "{count} items"\nmsgstr[0] "Un article"\nmsgstr[1] "{count} articles"', 'fr')
+ * // { cart: { items: { one: 'Un article', other: '{count} articles' } } }
+ */
+export function parsePo(content: string, locale?: string): Localization {
+	const entries: GettextEntry[] = []
+	let fields: Record<string, string> = {}
+	let fuzzy = false
+	let markers: Record<string, string> | undefined
+	let field: string | undefined
+
+	const unescape = (value: string): string =>
+		value.slice(1, -1).replace(/\\([0-7]{1,3}|.)/g, (_, escaped: string) => {
+			if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8))
+			return ESCAPE_SEQUENCES[escaped] ?? escaped
+		})
+
+	const flush = (): void => {
+		if (fields.msgid !== undefined) {
+			const idPlural = fields.msgid_plural
+			const strings = []
+			for (let index = 0; fields[`msgstr[${index}]`] !== undefined; index++) {
+				strings.push(fields[`msgstr[${index}]`])
+			}
+
+			entries.push({
+				context: fields.msgctxt,
+				id: fields.msgid,
+				idPlural,
+				strings: idPlural === undefined ? [fields.msgstr ?? ''] : strings,
+				fuzzy,
+				markers,
+			})
+		}
+
+		fields = {}
+		fuzzy = false
+		markers = undefined
+		field = undefined
+	}
+
+	const hasTranslation = (): boolean => Object.keys(fields).some((key) => key.startsWith('msgstr'))
+
+	content.split(/\r?\n/).forEach((rawLine, index) => {
+		const line = rawLine.trim()
+		const keyword = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s*(".*")$/.exec(line)
+
+		if (!line || line.startsWith('#~')) return
+
+		if (line.startsWith('#')) {
+			if (hasTranslation()) flush()
+			if (line.startsWith('#,') && /\bfuzzy\b/.test(line)) fuzzy = true
+
+			const marker = MARKER_COMMENT_PATTERN.exec(line)
+			if (marker) markers = { ...markers, [marker[1]]: marker[2] }
+			return
+		}
+
+		if (keyword) {
+			if ((keyword[1] === 'msgctxt' || keyword[1] === 'msgid') && hasTranslation()) flush()
+			field = keyword[1]
+			fields[field] = unescape(keyword[2])
+			return
+		}
+
+		if (field && /^".*"$/.test(line)) {
+			fields[field] += unescape(line)
+			return
+		}
+
+		throw new SyntaxError(`Unexpected content "${line}" at line ${index + 1} of PO catalog`)
+	})
+
+	flush()
+	return buildLocalization(entries, locale)
+}
+
+/**
+ * Parses a compiled gettext `.mo` catalog (little or big endian, UTF-8 strings), with the same key and plural
+ * mapping as `parsePo`.
+ *
+ * @param data - The binary content of the MO file.
+ * @param locale - The locale of the catalog, whose CLDR plural categories are used, defaults to the Language header.
+ * @returns The parsed localization.
+ *
+ * @example
+ * parseMo(readFileSync('./locales/fr/messages.mo'), 'fr')
+ */
+export function parseMo(data: Uint8Array, locale?: string): Localization {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+	const magic = data.byteLength >= 20 ? view.getUint32(0, true) : 0
+
+	if (magic !== 0x950412de && magic !== 0xde120495) {
+		throw new SyntaxError('Invalid MO catalog, the magic number is missing')
+	}
+
+	const littleEndian = magic === 0x950412de
+	const count = view.getUint32(8, littleEndian)
+	const originalsOffset = view.getUint32(12, littleEndian)
+	const translationsOffset = view.getUint32(16, littleEndian)
+	const decoder = new TextDecoder()
+
+	const readString = (tableOffset: number, index: number): string => {
+		const length = view.getUint32(tableOffset + index * 8, littleEndian)
+		const offset = view.getUint32(tableOffset + index * 8 + 4, littleEndian)
+		return decoder.decode(data.subarray(offset, offset + length))
+	}
+
+	const entries = Array.from({ length: count }, (_, index): GettextEntry => {
+		// The context is separated from the msgid by EOT, and the msgid from the msgid_plural by NUL
+		const original = readString(originalsOffset, index)
+		const contextEnd = original.indexOf('\u0004')
+		const [id, idPlural] = original.slice(contextEnd + 1).split('\0')
+
+		return {
+			context: contextEnd >= 0 ? original.slice(0, contextEnd) : undefined,
+			id,
+			idPlural,
+			strings: readString(translationsOffset, index).split('\0'),
+			fuzzy: false,
+		}
+	})
+
+	return buildLocalization(entries, locale)
+}
+
+/**
+ * Serializes a localization to a gettext `.po` catalog, or a `.pot` template. Every message of the source
+ * localization becomes an entry whose msgctxt is its key path and whose msgid is its source text, plural objects
+ * become plural entries following the `Plural-Forms` of the locale, and select objects are split into one entry
+ * per option. Ordinal plural objects are split into one entry per form too, as `Plural-Forms` rules are cardinal, and
+ * marker keys (`__type__`) are written as extracted comments (`#. __type__: ordinal`) rather than translatable
+ * entries. Messages missing from the localization are written untranslated.
+ *
+ * @param localization - The translated localization.
+ * @param options - The locale of the catalog, the source localization (defaults to the translated one),
+ * whether to write an untranslated template and the Plural-Forms header (defaults to the locale's rule).
+ * @returns The PO document.
+ *
+ * @example
+ * stringifyPo({ cart: { title: 'Panier' } }, { locale: 'fr', source: { cart: { title: 'Cart' } } })
+ * // ... msgctxt "cart.title"\nmsgid "Cart"\nmsgstr "Panier"\n
+ */
+export function stringifyPo(
+	localization: Localization,
+	{
+		locale,
+		source = localization,
+		template = false,
+		pluralForms,
+	}: { locale: string; source?: Localization; template?: boolean; pluralForms?: string }
+): string {
+	const forms = template ? 'nplurals=INTEGER; plural=EXPRESSION;' : (pluralForms ?? getPluralForms(locale))
+	const categories = template ? ['one', 'other'] : mapPluralForms(forms, locale)
+
+	const escape = (value: string): string =>
+		value
+			.replace(/\\/g, '\\\\')
+			.replace(/"/g, '\\"')
+			.replace(/\t/g, '\\t')
+			.replace(/\r/g, '\\r')
+			.replace(/\n/g, '\\n')
+
+	// Multi-line strings start with an empty string and continue with one string per line
+	const format = (keyword: string, value: string): string => {
+		const lines = value.split(/(?<=\n)/)
+		if (lines.length < 2) return `${keyword} "${escape(value)}"`
+		return [`${keyword} ""`, ...lines.map((line) => `"${escape(line)}"`)].join('\n')
+	}
+
+	const headers = [
+		'MIME-Version: 1.0',
+		'Content-Type: text/plain; charset=UTF-8',
+		'Content-Transfer-Encoding: 8bit',
+		`Language: ${template ? '' : locale}`,
+		`Plural-Forms: ${forms}`,
+		'X-Generator: I18XS',
+	]
+	const blocks = [[format('msgid', ''), format('msgstr', `${headers.join('\n')}\n`)].join('\n')]
+
+	// gettext plural entries only hold the CLDR categories of the cardinal Plural-Forms rule, so ordinal and
+	// exact-value forms are exported one by one
+	const isPlural = (value: Localization): boolean =>
+		isPluralLocalization(value) &&
+		value.__type__ !== 'ordinal' &&
+		Object.keys(value)
+			.filter((key) => !key.startsWith('__'))
+			.every((key) => PLURAL_CATEGORIES.includes(key as Intl.LDMLPluralRule))
+
+	// Marker keys (`__type__`) aren't translated, they're written as extracted comments of the entries of their object
+	const getMarkerComments = (value: Localization): string[] =>
+		Object.entries(value)
+			.filter(([key, marker]) => key.startsWith('__') && typeof marker === 'string')
+			.map(([key, marker]) => `#. ${key}: ${marker}`)
+
+	const visit = (
+		sourceValue: string | Localization,
+		value: string | Localization | undefined,
+		path: string,
+		comments: string[] = []
+	): void => {
+		if (typeof sourceValue === 'string') {
+			const translation = !template && typeof value === 'string' ? value : ''
+			blocks.push(
+				[
+					...comments,
+					format('msgctxt', path),
+					format('msgid', sourceValue),
+					format('msgstr', translation),
+				].join('\n')
+			)
+			return
+		}
+
+		if (isPlural(sourceValue)) {
+			const singular = (sourceValue.one ?? sourceValue.other ?? path) as string
+			const lines = [
+				...getMarkerComments(sourceValue),
+				format('msgctxt', path),
+				format('msgid', singular),
+				format('msgid_plural', (sourceValue.other ?? singular) as string),
+			]
+
+			categories.forEach((category, index) => {
+				const form = typeof value === 'object' ? (value[category] ?? value.other) : value
+				lines.push(format(`msgstr[${index}]`, !template && typeof form === 'string' ? form : ''))
+			})
+
+			blocks.push(lines.join('\n'))
+			return
+		}
+
+		const markerComments = getMarkerComments(sourceValue)
+
+		for (const [key, child] of Object.entries(sourceValue)) {
+			if (key.startsWith('__') && typeof child === 'string') continue
+
+			const childValue = typeof value === 'object' ? value[key] : undefined
+			visit(child, childValue, path ? `${path}.${key}` : key, markerComments)
+		}
+	}
+
+	visit(source, localization, '')
+	return `${blocks.join('\n\n')}\n`
+}
@@ -0,0 +1,11 @@
+export { parseAndroidStrings, stringifyAndroidStrings } from './android'
+export { parseAppleStrings, parseStringsDict, stringifyAppleStrings, stringifyStringsDict } from './apple'
+export { parseArb, stringifyArb } from './arb'
+export { parseCsv, stringifyCsv } from './csv'
+export { DEFAULT_PARSERS } from './defaults'
+export { getPluralForms, mapPluralForms, parseMo, parsePo, stringifyPo } from './gettext'
+export { parseJson5 } from './json5'
+export { parseProperties } from './properties'
+export { parseXliff, stringifyXliff } from './xliff'
+export { findXmlElements, getXmlText, parseXml } from './xml'
+export { parseYaml } from './yaml'
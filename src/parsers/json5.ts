@@ -0,0 +1,190 @@
+import { isSafeKey } from '../helpers'
+import { Localization } from '../types/Localization'
+
+/**
+ * Parses a JSON5 document: JSON with comments, trailing commas, single-quoted strings, unquoted keys,
+ * hexadecimal numbers, leading or trailing decimal points, explicit plus signs, Infinity and NaN. Keys reaching the
+ * prototype of an object (`__proto__`) are skipped.
+ *
+ * @param content - The JSON5 document.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} If the document is not valid JSON5.
+ *
+ * @example
+ * parseJson5("{ // Greetings\n  hello: 'Hello', }") // { hello: 'Hello' }
+ */
+export function parseJson5(content: string): Localization {
+	let position = 0
+
+	const fail = (message: string): never => {
+		throw new SyntaxError(`${message} at position ${position} in JSON5`)
+	}
+
+	const skipWhitespaceAndComments = (): void => {
+		while (position < content.length) {
+			if (/\s/.test(content[position])) {
+				position++
+			} else if (content.startsWith('//', position)) {
+				const end = content.indexOf('\n', position)
+				position = end === -1 ? content.length : end + 1
+			} else if (content.startsWith('/*', position)) {
+				const end = content.indexOf('*/', position + 2)
+				if (end === -1) fail('Unterminated comment')
+				position = end + 2
+			} else {
+				break
+			}
+		}
+	}
+
+	const parseString = (): string => {
+		const quote = content[position++]
+		let value = ''
+
+		while (position < content.length && content[position] !== quote) {
+			const char = content[position++]
+
+			if (char === '\n') fail('Unterminated string')
+			if (char !== '\\') {
+				value += char
+				continue
+			}
+
+			const escaped = content[position++]
+			switch (escaped) {
+				case 'n':
+					value += '\n'
+					break
+				case 't':
+					value += '\t'
+					break
+				case 'r':
+					value += '\r'
+					break
+				case 'b':
+					value += '\b'
+					break
+				case 'f':
+					value += '\f'
+					break
+				case 'v':
+					value += '\v'
+					break
+				case '0':
+					value += '\0'
+					break
+				case 'u':
+					value += String.fromCharCode(parseInt(content.slice(position, position + 4), 16))
+					position += 4
+					break
+				case 'x':
+					value += String.fromCharCode(parseInt(content.slice(position, position + 2), 16))
+					position += 2
+					break
+				case '\r':
+					// Line continuation
+					if (content[position] === '\n') position++
+					break
+				case '\n':
+					break
+				default:
+					value += escaped
+			}
+		}
+
+		if (content[position] !== quote) fail('Unterminated string')
+		position++
+		return value
+	}
+
+	const parseIdentifier = (): string => {
+		const match = /^[A-Za-z_$][\w$]*/.exec(content.slice(position))
+		if (!match) return fail(`Unexpected character ${JSON.stringify(content[position])}`)
+
+		position += match[0].length
+		return match[0]
+	}
+
+	const parseNumber = (): number => {
+		const match = /^[+-]?(0[xX][\da-fA-F]+|Infinity|NaN|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(content.slice(position))
+		if (!match) return fail(`Unexpected character ${JSON.stringify(content[position])}`)
+
+		position += match[0].length
+		const sign = match[0].startsWith('-') ? -1 : 1
+		const digits = match[0].replace(/^[+-]/, '')
+		return sign * (/^0[xX]/.test(digits) ? parseInt(digits, 16) : Number(digits))
+	}
+
+	const parseValue = (): unknown => {
+		skipWhitespaceAndComments()
+		const char = content[position]
+
+		if (char === '{') return parseObject()
+		if (char === '[') return parseArray()
+		if (char === '"' || char === '\'') return parseString()
+		if (char !== undefined && /[\d+\-.]/.test(char)) return parseNumber()
+
+		const identifier = parseIdentifier()
+		if (identifier === 'true') return true
+		if (identifier === 'false') return false
+		if (identifier === 'null') return null
+		if (identifier === 'Infinity') return Infinity
+		if (identifier === 'NaN') return NaN
+		return fail(`Unexpected identifier ${identifier}`)
+	}
+
+	const parseArray = (): unknown[] => {
+		const values: unknown[] = []
+		position++
+
+		for (;;) {
+			skipWhitespaceAndComments()
+			if (content[position] === ']') break
+
+			values.push(parseValue())
+			skipWhitespaceAndComments()
+			if (content[position] === ',') {
+				position++
+			} else if (content[position] !== ']') {
+				fail('Expected , or ]')
+			}
+		}
+
+		position++
+		return values
+	}
+
+	const parseObject = (): Record<string, unknown> => {
+		const object: Record<string, unknown> = {}
+		position++
+
+		for (;;) {
+			skipWhitespaceAndComments()
+			if (content[position] === '}') break
+
+			const key = content[position] === '"' || content[position] === '\'' ? parseString() : parseIdentifier()
+			skipWhitespaceAndComments()
+			if (content[position] !== ':') fail('Expected :')
+			position++
+
+			const value = parseValue()
+			if (isSafeKey(key)) object[key] = value
+			skipWhitespaceAndComments()
+			if (content[position] === ',') {
+				position++
+			} else if (content[position] !== '}') {
+				fail('Expected , or }')
+			}
+		}
+
+		position++
+		return object
+	}
+
+	const value = parseValue()
+	skipWhitespaceAndComments()
+	if (position < content.length) fail('Unexpected content after the document')
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) fail('Expected an object')
+
+	return value as Localization
+}
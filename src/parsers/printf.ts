@@ -0,0 +1,61 @@
+import { PrintfSegment } from '../types/PrintfSegment'
+
+// Named arguments of a message (`{name}`, `{{name}}`, `{price, number}`), with the name in the first matching group
+const ARGUMENT_PATTERN = /\{\{\s*([\w.]+)[^{}]*\}\}|\{\s*([\w.]+)\s*((?:[|,][^{}]*)?)\}/g
+
+// printf conversions (`%s`, `%1$s`, `%d`, `%ld`, `%@`, `%.2f`) and escaped percent signs (`%%`)
+const CONVERSION_PATTERN = /%%|%(?:(\d+)\$)?[-+0#]*\d*(?:\.\d+)?(?:ll|l|h|q|z|t|j)?([sdiufFeEgGxXoc@])/g
+
+/**
+ * Splits a message into text and positional printf placeholders. Arguments are numbered by their first appearance,
+ * `count` and number-formatted arguments use the integer conversion and other arguments the string conversion.
+ * Percent signs of the text are escaped (`%%`).
+ *
+ * @param message - The message with named arguments.
+ * @param conversions - The string and integer conversions of the platform, e.g. `{ string: 's', integer: 'd' }`.
+ * @param names - The argument names already numbered, updated with the new ones.
+ * @returns The text segments and placeholders, e.g. `['Cart of ', { name: 'name', conversion: '%1$s' }]`.
+ */
+export function toPrintfSegments(
+	message: string,
+	conversions: { string: string; integer: string },
+	names: string[] = []
+): PrintfSegment[] {
+	const segments: PrintfSegment[] = []
+	let position = 0
+
+	for (const match of message.matchAll(ARGUMENT_PATTERN)) {
+		const [argument, delimitedName, name = delimitedName, format = ''] = match
+		const type = name === 'count' || /^,\s*(number|plural)/.test(format) ? conversions.integer : conversions.string
+
+		if (!names.includes(name)) names.push(name)
+
+		segments.push(message.slice(position, match.index).replace(/%/g, '%%'))
+		segments.push({ name, conversion: `%${names.indexOf(name) + 1}$${type}` })
+		position = match.index + argument.length
+	}
+
+	segments.push(message.slice(position).replace(/%/g, '%%'))
+	return segments.filter((segment) => segment !== '')
+}
+
+/**
+ * Converts the printf placeholders of a platform string into named arguments. Positional placeholders (`%2$s`)
+ * use their position and the other placeholders are numbered in order.
+ *
+ * @param text - The platform string.
+ * @param getName - Gets the argument name of a placeholder position (1-based).
+ * @returns The message with named arguments.
+ *
+ * @example
+ * fromPrintf('Cart of %1$s, %%%2$d off', (position) => ['name', 'discount'][position - 1])
+ * // 'Cart of {name}, %{discount} off'
+ */
+export function fromPrintf(text: string, getName: (position: number) => string): string {
+	let nextPosition = 1
+
+	return text.replace(CONVERSION_PATTERN, (conversion, position?: string) => {
+		if (conversion === '%%') return '%'
+		return `{${getName(position ? Number(position) : nextPosition++)}}`
+	})
+}
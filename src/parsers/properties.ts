@@ -0,0 +1,59 @@
+import { isSafeKey } from '../helpers'
+import { Localization } from '../types/Localization'
+
+/**
+ * Parses a Java `.properties` resource bundle. Supports `=`, `:` and whitespace separators, `#` and `!` comments,
+ * line continuations and escapes (`\n`, `\t`, `\uXXXX`). Dotted keys are nested (`errors.required` becomes
+ * `{ errors: { required } }`) so plural forms such as `items.one` and `items.other` form a plural object,
+ * keys that can't be nested because a shorter key holds a message stay flat. Keys with a segment reaching the
+ * prototype of an object (`__proto__`) are skipped.
+ *
+ * @param content - The properties document.
+ * @returns The parsed localization.
+ *
+ * @example
+ * parseProperties('# Greetings\nhello = Hello\nitems.one = One item\nitems.other = {count} items')
+ * // { hello: 'Hello', items: { one: 'One item', other: '{count} items' } }
+ */
+export function parseProperties(content: string): Localization {
+	const entries = new Map<string, string>()
+	const lines = content.split(/\r?\n/)
+
+	const unescape = (value: string): string =>
+		value.replace(/\\(u[\da-fA-F]{4}|.)/g, (_, escaped: string) => {
+			if (escaped.length > 1) return String.fromCharCode(parseInt(escaped.slice(1), 16))
+			return ({ n: '\n', t: '\t', r: '\r', f: '\f' } as Record<string, string>)[escaped] ?? escaped
+		})
+
+	for (let index = 0; index < lines.length; index++) {
+		let line = lines[index].trimStart()
+		if (!line || line.startsWith('#') || line.startsWith('!')) continue
+
+		// An odd number of trailing backslashes continues the entry on the next line
+		while (/(^|[^\\])(\\\\)*\\$/.test(line) && index + 1 < lines.length) {
+			line = line.slice(0, -1) + lines[++index].trimStart()
+		}
+
+		const separator = /^((?:[^\\:=\s]|\\.)*)\s*[:=\s]\s*/.exec(line)
+		entries.set(unescape(separator ? separator[1] : line), separator ? unescape(line.slice(separator[0].length)) : '')
+	}
+
+	const root: Localization = {}
+
+	for (const [key, value] of entries) {
+		const path = key.split('.')
+		if (!path.every(isSafeKey)) continue
+
+		const prefixes = path.slice(1).map((_, index) => path.slice(0, index + 1).join('.'))
+
+		if (prefixes.some((prefix) => entries.has(prefix))) {
+			root[key] = value
+			continue
+		}
+
+		const parent = path.slice(0, -1).reduce((target, segment) => (target[segment] ??= {}) as Localization, root)
+		parent[path[path.length - 1]] = value
+	}
+
+	return root
+}
@@ -0,0 +1,287 @@
+import { PLURAL_CATEGORIES, escapeHtml, isPluralLocalization, setLocalizationPath } from '../helpers'
+import { Localization } from '../types/Localization'
+import { XliffDocument } from '../types/XliffDocument'
+import { XmlElement } from '../types/XmlElement'
+
+import { parseXml } from './xml'
+
+// Simple and formatted arguments (`{name}`, `{{name}}`, `{price, number}`), exported as inline placeholder codes
+const PLACEHOLDER_PATTERN = /\{\{\s*[\w.]+[^{}]*\}\}|\{\s*[\w.]+\s*(?:[|,][^{}]*)?\}/g
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>'
+
+type XliffUnit = { id: string; source: string; target?: string; notes: string[]; translatable: boolean }
+
+/**
+ * Gets the plural categories to export for a plural object: the categories of the source, those the target locale
+ * needs and those the target already has. Returns undefined when the object isn't a plural object.
+ *
+ * @param source - The source object.
+ * @param target - The target object, if translated.
+ * @param locale - The target locale.
+ * @returns The plural categories in CLDR order, or undefined.
+ */
+function getPluralCategories(
+	source: Localization,
+	target: Localization | undefined,
+	locale: string
+): string[] | undefined {
+	if (!isPluralLocalization(source)) return undefined
+
+	let required: string[] = []
+	try {
+		const type = source.__type__ === 'ordinal' ? 'ordinal' : 'cardinal'
+		required = new Intl.PluralRules(locale, { type }).resolvedOptions().pluralCategories
+	} catch {
+		// Unknown locales only export the categories of the source and the target
+	}
+
+	return PLURAL_CATEGORIES.filter(
+		(category) => category in source || required.includes(category) || category in (target ?? {})
+	)
+}
+
+/**
+ * Collects the translation units of a source localization, one per message, with plural objects split into one unit
+ * per plural category of the target locale. Marker keys (`__type__`) are collected as units not to translate.
+ *
+ * @param source - The source localization.
+ * @param target - The target localization.
+ * @param locale - The target locale.
+ * @param path - The key path of the localization.
+ * @param units - The collected units.
+ */
+function collectUnits(
+	source: Localization,
+	target: Localization | undefined,
+	locale: string,
+	path: string,
+	units: XliffUnit[]
+): void {
+	const categories = getPluralCategories(source, target, locale)
+	const keys = categories
+		? [...Object.keys(source).filter((key) => !categories.includes(key)), ...categories]
+		: Object.keys(source)
+
+	for (const key of keys) {
+		const id = path ? `${path}.${key}` : key
+		const sourceValue = source[key] ?? source.other
+		const targetValue = target?.[key]
+
+		if (sourceValue === undefined) continue
+
+		if (typeof sourceValue === 'object') {
+			collectUnits(sourceValue, typeof targetValue === 'object' ? targetValue : undefined, locale, id, units)
+			continue
+		}
+
+		const translatable = !key.startsWith('__')
+		units.push({
+			id,
+			source: sourceValue,
+			target: typeof targetValue === 'string' ? targetValue : translatable ? undefined : sourceValue,
+			notes: categories?.includes(key) ? [`Plural form: ${key}`] : [],
+			translatable,
+		})
+	}
+}
+
+/**
+ * Reads the text of an XLIFF source or target, replacing the inline placeholder codes (`<x/>`, `<ph/>`)
+ * with the placeholder text they stand for.
+ *
+ * @param element - The source or target element.
+ * @returns The text with its placeholders.
+ */
+function readContent(element: XmlElement): string {
+	return element.children
+		.map((child) => {
+			if (typeof child === 'string') return child
+
+			const name = child.name.replace(/^[\w.-]+:/, '')
+			if (name === 'x' || name === 'ph') {
+				return child.attributes['equiv-text'] ?? child.attributes.equiv ?? child.attributes.disp ?? ''
+			}
+
+			return readContent(child)
+		})
+		.join('')
+}
+
+/**
+ * Gets the child elements of an element with a given name, ignoring namespace prefixes.
+ *
+ * @param element - The parent element.
+ * @param names - The local names of the children to get.
+ * @returns The matching child elements.
+ */
+function getChildren(element: XmlElement, ...names: string[]): XmlElement[] {
+	return element.children.filter(
+		(child): child is XmlElement => typeof child !== 'string' && names.includes(child.name.replace(/^[\w.-]+:/, ''))
+	)
+}
+
+/**
+ * Parses an XLIFF 1.2 or 2.0 document. The translated units are nested by their id (`cart.items.one` becomes
+ * `{ cart: { items: { one } } }`), so plural forms exported as separate units form plural objects again, and inline
+ * placeholder codes are turned back into placeholders. Units without target are skipped.
+ *
+ * @param content - The XLIFF document.
+ * @returns The version, languages and translated localization of the document.
+ * @throws {SyntaxError} When the document is not well-formed XLIFF.
+ *
+ * @example
+ * parseXliff('<xliff version="2.0" srcLang="en" trgLang="fr"><file id="f"><unit id="cart.title"><segment>...</segment></unit></file></xliff>')
+ * // { version: '2.0', sourceLocale: 'en', targetLocale: 'fr', localization: { cart: { title: 'Panier' } } }
+ */
+export function parseXliff(content: string): XliffDocument {
+	const root = parseXml(content)
+
+	if (root.name.replace(/^[\w.-]+:/, '') !== 'xliff') {
+		throw new SyntaxError(`Expected an <xliff> root element, found <${root.name}>`)
+	}
+
+	const version = root.attributes.version ?? '1.2'
+	const [file] = getChildren(root, 'file')
+	const localization: Localization = {}
+
+	const collect = (element: XmlElement): void => {
+		for (const child of getChildren(element, 'file', 'body', 'group', 'unit', 'trans-unit')) {
+			const { id } = child.attributes
+			const name = child.name.replace(/^[\w.-]+:/, '')
+
+			if (name !== 'unit' && name !== 'trans-unit') {
+				collect(child)
+				continue
+			}
+
+			// XLIFF 2.0 splits a unit into segments (and ignorable whitespace), each with its own target
+			const targets =
+				name === 'unit'
+					? getChildren(child, 'segment', 'ignorable').flatMap((segment) => getChildren(segment, 'target'))
+					: getChildren(child, 'target')
+			const value = targets.map(readContent).join('')
+
+			if (id && value) setLocalizationPath(localization, id, value)
+		}
+	}
+
+	collect(root)
+
+	return {
+		version,
+		sourceLocale: root.attributes.srcLang ?? file?.attributes['source-language'],
+		targetLocale: root.attributes.trgLang ?? file?.attributes['target-language'],
+		localization,
+	}
+}
+
+/**
+ * Serializes a source and a target localization to an XLIFF 1.2 or 2.0 document. Every message of the source
+ * becomes a unit whose id is its key path, plural objects are split into one unit per plural category of the target
+ * locale, placeholders become inline codes translators can't alter, and units are marked as translated, or as needing
+ * translation when missing from the target.
+ *
+ * @param source - The source localization.
+ * @param target - The target localization.
+ * @param options - The source and target locales, the XLIFF version (defaults to 1.2) and notes for translators keyed
+ * by unit id.
+ * @returns The XLIFF document.
+ *
+ * @example
+ * stringifyXliff({ cart: { title: 'Cart' } }, {}, { sourceLocale: 'en', targetLocale: 'fr', notes: { 'cart.title': 'Page title' } })
+ */
+export function stringifyXliff(
+	source: Localization,
+	target: Localization,
+	{
+		sourceLocale,
+		targetLocale,
+		version = '1.2',
+		notes = {},
+	}: { sourceLocale: string; targetLocale: string; version?: '1.2' | '2.0'; notes?: Record<string, string> }
+): string {
+	const units: XliffUnit[] = []
+	collectUnits(source, target, targetLocale, '', units)
+
+	// Placeholders get the same id in the source and the target of a unit
+	const render = (text: string, ids: Map<string, number>): string => {
+		let rendered = ''
+		let position = 0
+
+		for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+			const [placeholder] = match
+			const equiv = escapeHtml(placeholder)
+			if (!ids.has(placeholder)) ids.set(placeholder, ids.size + 1)
+
+			const code =
+				version === '2.0'
+					? `<ph id="${ids.get(placeholder)}" equiv="${equiv}" disp="${equiv}"/>`
+					: `<x id="${ids.get(placeholder)}" equiv-text="${equiv}"/>`
+			rendered = `${rendered}${escapeHtml(text.slice(position, match.index))}${code}`
+			position = match.index + placeholder.length
+		}
+
+		return `${rendered}${escapeHtml(text.slice(position))}`
+	}
+
+	const lines = units.flatMap(({ id, source: sourceText, target: targetText, translatable, ...unit }) => {
+		const ids = new Map<string, number>()
+		const translate = translatable ? '' : ' translate="no"'
+		const unitNotes = [...(notes[id] ? [notes[id]] : []), ...unit.notes].map(
+			(note) => `<note>${escapeHtml(note)}</note>`
+		)
+		const renderedSource = `<source>${render(sourceText, ids)}</source>`
+
+		if (version === '2.0') {
+			const state = translatable ? (targetText === undefined ? 'initial' : 'translated') : 'final'
+			return [
+				`\t\t<unit id="${escapeHtml(id)}"${translate}>`,
+				...(unitNotes.length
+					? ['\t\t\t<notes>', ...unitNotes.map((note) => `\t\t\t\t${note}`), '\t\t\t</notes>']
+					: []),
+				`\t\t\t<segment state="${state}">`,
+				`\t\t\t\t${renderedSource}`,
+				...(targetText === undefined ? [] : [`\t\t\t\t<target>${render(targetText, ids)}</target>`]),
+				'\t\t\t</segment>',
+				'\t\t</unit>',
+			]
+		}
+
+		const state = translatable ? 'translated' : 'final'
+		return [
+			`\t\t\t<trans-unit id="${escapeHtml(id)}"${translate}>`,
+			`\t\t\t\t${renderedSource}`,
+			targetText === undefined
+				? '\t\t\t\t<target state="needs-translation"/>'
+				: `\t\t\t\t<target state="${state}">${render(targetText, ids)}</target>`,
+			...unitNotes.map((note) => `\t\t\t\t${note}`),
+			'\t\t\t</trans-unit>',
+		]
+	})
+
+	const sourceLanguage = escapeHtml(sourceLocale)
+	const targetLanguage = escapeHtml(targetLocale)
+
+	if (version === '2.0') {
+		return [
+			XML_DECLARATION,
+			`<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+			'\t<file id="i18xs">',
+			...lines,
+			'\t</file>',
+			'</xliff>\n',
+		].join('\n')
+	}
+
+	return [
+		XML_DECLARATION,
+		'<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+		`\t<file source-language="${sourceLanguage}" target-language="${targetLanguage}" datatype="plaintext" original="i18xs">`,
+		'\t\t<body>',
+		...lines,
+		'\t\t</body>',
+		'\t</file>',
+		'</xliff>\n',
+	].join('\n')
+}
@@ -0,0 +1,125 @@
+import { XmlElement } from '../types/XmlElement'
+
+// Markup of an XML document: comments, CDATA sections, processing instructions, doctypes, tags and text
+const TOKEN_PATTERN =
+	/<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' }
+
+/**
+ * Decodes the predefined and numeric character references of XML text.
+ *
+ * @param text - The raw text.
+ * @returns The decoded text.
+ */
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[\da-fA-F]+|#\d+|\w+);/g, (reference, entity: string) => {
+		if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16))
+		if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10))
+		return NAMED_ENTITIES[entity] ?? reference
+	})
+}
+
+/**
+ * Parses an XML document into a tree of elements. Supports attributes, self-closing tags, CDATA sections and
+ * character references, while comments, processing instructions and doctypes are skipped. Namespaces are not
+ * resolved, prefixed names are kept as written.
+ *
+ * @param content - The XML document.
+ * @returns The root element.
+ * @throws {SyntaxError} When the document is not well-formed.
+ *
+ * @example
+ * parseXml('<resources><string name="title">Cart</string></resources>')
+ * // { name: 'resources', attributes: {}, children: [{ name: 'string', attributes: { name: 'title' }, children: ['Cart'] }] }
+ */
+export function parseXml(content: string): XmlElement {
+	const document: XmlElement = { name: '', attributes: {}, children: [] }
+	const stack = [document]
+	let position = 0
+
+	for (const match of content.matchAll(TOKEN_PATTERN)) {
+		const [source, cdata, closing, name, attributes, selfClosing, text] = match
+		const parent = stack[stack.length - 1]
+
+		if (match.index !== position) {
+			throw new SyntaxError(`Unexpected "<" at offset ${position} of XML document`)
+		}
+		position += source.length
+
+		if (text !== undefined || cdata !== undefined) {
+			if (text !== undefined && stack.length === 1 && text.trim()) {
+				throw new SyntaxError(`Unexpected text "${text.trim()}" outside the root element of XML document`)
+			}
+			if (stack.length > 1) parent.children.push(cdata ?? decodeEntities(text))
+		} else if (closing) {
+			if (stack.length === 1 || parent.name !== name) {
+				throw new SyntaxError(`Unexpected closing tag </${name}> in XML document`)
+			}
+			stack.pop()
+		} else if (name) {
+			const element: XmlElement = { name, attributes: {}, children: [] }
+			for (const [, attribute, doubleQuoted, singleQuoted] of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+				element.attributes[attribute] = decodeEntities(doubleQuoted ?? singleQuoted)
+			}
+
+			parent.children.push(element)
+			if (!selfClosing) stack.push(element)
+		}
+	}
+
+	const root = document.children.find((child): child is XmlElement => typeof child !== 'string')
+
+	if (position !== content.length || stack.length > 1 || !root) {
+		throw new SyntaxError('Unexpected end of XML document')
+	}
+
+	return root
+}
+
+/**
+ * Finds the descendants of an element with a given name, in document order. Namespace prefixes are ignored.
+ *
+ * @param element - The element to search.
+ * @param name - The local name of the elements to find.
+ * @returns The matching descendants.
+ *
+ * @example
+ * findXmlElements(parseXml('<xliff><file><unit id="title"/></file></xliff>'), 'unit') // [{ name: 'unit', ... }]
+ */
+export function findXmlElements(element: XmlElement, name: string): XmlElement[] {
+	return element.children.flatMap((child) => {
+		if (typeof child === 'string') return []
+
+		const matches = findXmlElements(child, name)
+		return child.name.replace(/^[\w.-]+:/, '') === name ? [child, ...matches] : matches
+	})
+}
+
+/**
+ * Gets the text content of an element and its descendants.
+ *
+ * @param element - The element.
+ * @returns The concatenated text of the element.
+ *
+ * @example
+ * getXmlText(parseXml('<string>Hello <b>world</b></string>')) // 'Hello world'
+ */
+export function getXmlText(element: XmlElement): string {
+	return element.children.map((child) => (typeof child === 'string' ? child : getXmlText(child))).join('')
+}
+
+/**
+ * Escapes the characters of a text or attribute value that have a special meaning in XML markup.
+ *
+ * @param value - The value to escape.
+ * @returns The value with &, <, > and " replaced by their entities.
+ *
+ * @example
+ * escapeXml('Tom & "Jerry"') // 'Tom &amp; &quot;Jerry&quot;'
+ */
+export function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
@@ -0,0 +1,120 @@
+import { isSafeKey } from '../helpers'
+import { Localization } from '../types/Localization'
+
+// A mapping entry: a plain, single-quoted or double-quoted key followed by a colon and an optional value
+const ENTRY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+(.*))?$/
+
+// The indicator of a literal (|) or folded (>) block scalar with an optional chomping indicator
+const BLOCK_SCALAR_PATTERN = /^([|>])([+-]?)\s*(#.*)?$/
+
+/**
+ * Unquotes a single-quoted or double-quoted YAML scalar, resolving its escapes.
+ *
+ * @param value - The quoted scalar.
+ * @returns The unquoted value.
+ */
+function unquote(value: string): string {
+	if (value.startsWith('\'')) return value.slice(1, -1).replace(/''/g, '\'')
+
+	return value.slice(1, -1).replace(/\\(u[\da-fA-F]{4}|x[\da-fA-F]{2}|.)/g, (_, escaped: string) => {
+		if (escaped.length > 1) return String.fromCharCode(parseInt(escaped.slice(1), 16))
+		return ({ n: '\n', t: '\t', r: '\r', 0: '\0', b: '\b' } as Record<string, string>)[escaped] ?? escaped
+	})
+}
+
+/**
+ * Folds the lines of a folded (>) block scalar: lines are joined with spaces and empty lines become line breaks.
+ *
+ * @param lines - The lines of the block, without their indentation.
+ * @returns The folded text.
+ */
+function fold(lines: string[]): string {
+	return lines.reduce((folded, line, index) => {
+		if (index === 0) return line
+		if (!line) return `${folded}\n`
+		if (!lines[index - 1]) return `${folded}${line}`
+		return `${folded} ${line}`
+	}, '')
+}
+
+/**
+ * Parses the YAML subset used by localization files: nested mappings, plain, single-quoted and double-quoted
+ * scalars, literal (|) and folded (>) block scalars, comments and document markers.
+ * Scalars are kept as strings, sequences and flow collections are not supported, and keys reaching the prototype of
+ * an object (`__proto__`) are skipped.
+ *
+ * @param content - The YAML document.
+ * @returns The parsed localization.
+ * @throws {SyntaxError} If the document uses unsupported or invalid syntax.
+ *
+ * @example
+ * parseYaml('general:\n  hello: Hello # greeting\n  items: "{count} items"')
+ * // { general: { hello: 'Hello', items: '{count} items' } }
+ */
+export function parseYaml(content: string): Localization {
+	const lines = content.split(/\r?\n/)
+	const root: Localization = {}
+	const stack: { indent: number; object: Localization }[] = [{ indent: -1, object: root }]
+
+	const fail = (message: string, lineIndex: number): never => {
+		throw new SyntaxError(`${message} on line ${lineIndex + 1} in YAML`)
+	}
+
+	const indentOf = (line: string): number => line.length - line.trimStart().length
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index]
+		const trimmed = line.trim()
+
+		if (!trimmed || trimmed.startsWith('#') || trimmed === '---' || trimmed === '...') continue
+		if (/^\s*\t/.test(line)) fail('Tabs are not allowed in indentation', index)
+
+		const indent = indentOf(line)
+		const entry = ENTRY_PATTERN.exec(trimmed)
+		if (!entry) fail(`Unsupported syntax ${JSON.stringify(trimmed)}`, index)
+
+		while (stack[stack.length - 1].indent >= indent) {
+			stack.pop()
+		}
+
+		const [, rawKey, rawValue = ''] = entry as RegExpExecArray
+		const key = /^["']/.test(rawKey) ? unquote(rawKey) : rawKey
+		// Keys reaching the prototype of an object (`__proto__`) are parsed into a detached object and dropped
+		const parent = isSafeKey(key) ? stack[stack.length - 1].object : {}
+		const value = rawValue.trim()
+		const blockScalar = BLOCK_SCALAR_PATTERN.exec(value)
+
+		if (!value || value.startsWith('#')) {
+			const object: Localization = {}
+			parent[key] = object
+			stack.push({ indent, object })
+		} else if (blockScalar) {
+			const [, style, chomping] = blockScalar
+			const blockLines: string[] = []
+
+			// The block ends at the first non-empty line that isn't indented deeper than its key
+			while (index + 1 < lines.length && (!lines[index + 1].trim() || indentOf(lines[index + 1]) > indent)) {
+				blockLines.push(lines[++index])
+			}
+
+			const blockIndent = Math.min(...blockLines.filter((blockLine) => blockLine.trim()).map(indentOf))
+			const texts = blockLines.map((blockLine) => blockLine.slice(blockIndent))
+			const text = style === '|' ? texts.join('\n') : fold(texts)
+			const body = text.replace(/\n+$/, '')
+
+			if (chomping === '-') parent[key] = body
+			else if (chomping === '+') parent[key] = text.endsWith('\n') || !body ? text : `${text}\n`
+			else parent[key] = body ? `${body}\n` : ''
+		} else if (value.startsWith('"') || value.startsWith('\'')) {
+			const quoted = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')\s*(#.*)?$/.exec(value)
+			if (!quoted) fail('Unterminated or multi-line quoted scalar', index)
+			parent[key] = unquote((quoted as RegExpExecArray)[1])
+		} else if (/^[[{&*!|>-]\s/.test(value) || /^[[{]/.test(value)) {
+			fail(`Unsupported value ${JSON.stringify(value)}`, index)
+		} else {
+			parent[key] = value.replace(/\s+#.*$/, '')
+		}
+	}
+
+	return root
+}
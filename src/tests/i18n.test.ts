@@ -1,6 +1,21 @@
-import { describe, expect, it } from 'bun:test'
-
-import I18XS from '..'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { pathToFileURL } from 'url'
+
+import { afterAll, describe, expect, it, spyOn } from 'bun:test'
+
+import I18XS, {
+	createFetchBackend,
+	createFileSystemBackend,
+	parseAndroidStrings,
+	parseAppleStrings,
+	parseArb,
+	parseStringsDict,
+	stringifyAndroidStrings,
+	stringifyAppleStrings,
+	stringifyArb,
+	stringifyStringsDict,
+} from '..'
 
 const dir = `${process.cwd()}/src/tests/data/locales`
 
@@ -2684,3 +2699,2280 @@ describe('I18XS findMissingKeys', () => {
 		expect(typeof missing).toBe('object')
 	})
 })
+
+describe('I18XS Plural Rules', () => {
+	const localizations = {
+		ar: {
+			general: {
+				Days: {
+					zero: 'لا أيام',
+					one: 'يوم واحد',
+					two: 'يومان',
+					few: '{count} أيام',
+					many: '{count} يومًا',
+					other: '{count} يوم',
+				},
+			},
+		},
+		ru: {
+			general: {
+				Files: {
+					one: '{count} файл',
+					few: '{count} файла',
+					many: '{count} файлов',
+					other: '{count} файла',
+				},
+			},
+		},
+		en: {
+			general: {
+				Messages: {
+					'=0': 'No messages yet',
+					'=5': 'Exactly five messages',
+					'one': 'One message',
+					'other': '{count} messages',
+				},
+			},
+		},
+	}
+
+	it('Should select few and many forms for Arabic', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ar', supportedLocales: ['ar'], localizations })
+
+		expect(i18xs.t('general.Days', { count: 3 })).toBe('3 أيام')
+		expect(i18xs.t('general.Days', { count: 11 })).toBe('11 يومًا')
+		expect(i18xs.t('general.Days', { count: 100 })).toBe('100 يوم')
+		expect(i18xs.t('general.Days', { count: 2 })).toBe('يومان')
+	})
+
+	it('Should select one, few and many forms for Russian', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ru', supportedLocales: ['ru'], localizations })
+
+		expect(i18xs.t('general.Files', { count: 21 })).toBe('21 файл')
+		expect(i18xs.t('general.Files', { count: 22 })).toBe('22 файла')
+		expect(i18xs.t('general.Files', { count: 25 })).toBe('25 файлов')
+		expect(i18xs.t('general.Files', { count: 1.5 })).toBe('1.5 файла')
+	})
+
+	it('Should honor exact-value overrides before the plural category', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Messages', { count: 0 })).toBe('No messages yet')
+		expect(i18xs.t('general.Messages', { count: 5 })).toBe('Exactly five messages')
+		expect(i18xs.t('general.Messages', { count: 1 })).toBe('One message')
+		expect(i18xs.t('general.Messages', { count: 6 })).toBe('6 messages')
+	})
+
+	it('Should treat objects with few/many or exact-value keys as plural leaves in findMissingKeys', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ru'],
+			localizations: {
+				en: { __merged__: { Files: { '=0': 'No files', 'other': '{count} files' } } },
+				ru: { __merged__: { Files: { few: '{count} файла', many: '{count} файлов' } } },
+			},
+		})
+
+		expect(i18xs.findMissingKeys()).toEqual({})
+	})
+})
+
+describe('I18XS Ordinal Plurals', () => {
+	const localizations = {
+		en: {
+			general: {
+				Place: {
+					__type__: 'ordinal',
+					one: '{count}st place',
+					two: '{count}nd place',
+					few: '{count}rd place',
+					other: '{count}th place',
+				},
+				Attempt: {
+					'__type__': 'ordinal',
+					'=1': 'First attempt',
+					'one': '{count}st attempt',
+					'other': '{count}th attempt',
+				},
+			},
+		},
+		ar: {
+			general: {},
+		},
+	}
+
+	it('Should select ordinal forms for English', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Place', { count: 1 })).toBe('1st place')
+		expect(i18xs.t('general.Place', { count: 2 })).toBe('2nd place')
+		expect(i18xs.t('general.Place', { count: 3 })).toBe('3rd place')
+		expect(i18xs.t('general.Place', { count: 11 })).toBe('11th place')
+		expect(i18xs.t('general.Place', { count: 22 })).toBe('22nd place')
+		expect(i18xs.t('general.Place', { count: 103 })).toBe('103rd place')
+	})
+
+	it('Should honor exact-value overrides in ordinal objects', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Attempt', { count: 1 })).toBe('First attempt')
+		expect(i18xs.t('general.Attempt', { count: 21 })).toBe('21st attempt')
+		expect(i18xs.t('general.Attempt', { count: 4 })).toBe('4th attempt')
+	})
+
+	it('Should report missing ordinal objects in findMissingKeys', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.findMissingKeys()).toEqual({ ar: ['Attempt', 'Place'] })
+	})
+})
+
+describe('I18XS ICU MessageFormat', () => {
+	const localizations = {
+		en: {
+			general: {
+				Items: '{count, plural, =0 {No items} one {# item} other {# items}}',
+				Reply: '{gender, select, male {He replied} female {She replied} other {They replied}}',
+				Rank: 'You finished {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+				Guests: '{host} invited {guests, plural, offset:1 =0 {nobody} =1 {one guest} one {one guest and # other} other {one guest and # others}}',
+				Nested: '{gender, select, female {{count, plural, one {She has # cat} other {She has # cats}}} other {{count, plural, one {They have # cat} other {They have # cats}}}}',
+				Quoted: 'Use \'{name}\' to insert a name, it\'\'s easy',
+				Unknown: 'Hello {name}, {missing} stays',
+			},
+		},
+		ar: {
+			general: {
+				Items: '{count, plural, zero {لا عناصر} one {عنصر واحد} two {عنصران} few {# عناصر} many {# عنصرًا} other {# عنصر}}',
+			},
+		},
+	}
+
+	it('Should evaluate inline plural arguments with the # shorthand', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('general.Items', { count: 0 })).toBe('No items')
+		expect(i18xs.t('general.Items', { count: 1 })).toBe('1 item')
+		expect(i18xs.t('general.Items', { count: 1200 })).toBe('1,200 items')
+	})
+
+	it('Should use the other option when the plural argument is missing', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('general.Items')).toBe('# items')
+		expect(i18xs.t('general.Items', { count: 'many' })).toBe('# items')
+		expect(i18xs.t('general.Rank')).toBe('You finished #th')
+	})
+
+	it('Should evaluate inline plural arguments with CLDR categories', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ar', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('general.Items', { count: 0 })).toBe('لا عناصر')
+		expect(i18xs.t('general.Items', { count: 2 })).toBe('عنصران')
+		expect(i18xs.t('general.Items', { count: 11 })).toBe(`${i18xs.formatNumber(11)} عنصرًا`)
+	})
+
+	it('Should evaluate select and selectordinal arguments', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Reply', { gender: 'female' })).toBe('She replied')
+		expect(i18xs.t('general.Reply', { gender: 'unknown' })).toBe('They replied')
+		expect(i18xs.t('general.Rank', { place: 2 })).toBe('You finished 2nd')
+		expect(i18xs.t('general.Rank', { place: 13 })).toBe('You finished 13th')
+	})
+
+	it('Should support plural offsets', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Guests', { host: 'Ann', guests: 0 })).toBe('Ann invited nobody')
+		expect(i18xs.t('general.Guests', { host: 'Ann', guests: 2 })).toBe('Ann invited one guest and 1 other')
+		expect(i18xs.t('general.Guests', { host: 'Ann', guests: 4 })).toBe('Ann invited one guest and 3 others')
+	})
+
+	it('Should evaluate nested arguments', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Nested', { gender: 'female', count: 1 })).toBe('She has 1 cat')
+		expect(i18xs.t('general.Nested', { gender: 'male', count: 3 })).toBe('They have 3 cats')
+	})
+
+	it('Should keep quoted text and unknown placeholders literal', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Quoted')).toBe('Use {name} to insert a name, it\'s easy')
+		expect(i18xs.t('general.Unknown', { name: 'John' })).toBe('Hello John, {missing} stays')
+	})
+
+	it('Should evaluate ICU syntax in replaceData', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.replaceData('{n, plural, one {# file} other {# files}}', { n: 5 })).toBe('5 files')
+	})
+
+	it('Should cache parsed messages per locale and identifier', async () => {
+		class InspectableI18XS extends I18XS {
+			get parsedMessages() {
+				return this._parsedMessages
+			}
+		}
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		i18xs.t('general.Items', { count: 1 })
+		const parsed = i18xs.parsedMessages['en:general.Items']
+		i18xs.t('general.Items', { count: 2 })
+
+		expect(Object.keys(parsed)).toHaveLength(1)
+		expect(i18xs.parsedMessages['en:general.Items']).toBe(parsed)
+
+		i18xs.changeCurrentLocale('ar')
+		i18xs.t('general.Items', { count: 1 })
+		expect(i18xs.parsedMessages['ar:general.Items']).toBeDefined()
+	})
+})
+
+describe('I18XS Select Variants', () => {
+	const localizations = {
+		en: {
+			general: {
+				Reply: {
+					__type__: 'select',
+					male: 'He replied',
+					female: 'She replied',
+					other: 'They replied',
+				},
+				Role: {
+					__type__: 'select',
+					__selector__: 'role',
+					admin: 'Welcome back, administrator {name}',
+					other: 'Welcome back, {name}',
+				},
+				Photos: {
+					__type__: 'select',
+					female: { one: 'She added a photo', other: 'She added {count} photos' },
+					other: { one: 'They added a photo', other: 'They added {count} photos' },
+				},
+				Settings: {
+					title: 'Settings',
+					other: 'Other settings',
+				},
+			},
+		},
+		ar: {
+			general: {
+				Role: {
+					__type__: 'select',
+					__selector__: 'role',
+					other: 'مرحبًا بعودتك، {name}',
+				},
+			},
+		},
+	}
+
+	it('Should choose the variant by data.gender', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Reply', { gender: 'female' })).toBe('She replied')
+		expect(i18xs.t('general.Reply', { gender: 'male' })).toBe('He replied')
+		expect(i18xs.t('general.Reply', { gender: 'unknown' })).toBe('They replied')
+		expect(i18xs.t('general.Reply')).toBe('They replied')
+	})
+
+	it('Should choose the variant by a configurable selector key', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations, selectorKey: 'sex' })
+
+		expect(i18xs.t('general.Reply', { sex: 'male' })).toBe('He replied')
+		expect(i18xs.t('general.Reply', { gender: 'male' })).toBe('They replied')
+	})
+
+	it('Should choose the variant by the __selector__ key of the object', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Role', { role: 'admin', name: 'Sam' })).toBe('Welcome back, administrator Sam')
+		expect(i18xs.t('general.Role', { role: 'editor', name: 'Sam' })).toBe('Welcome back, Sam')
+	})
+
+	it('Should support pluralization objects inside variants', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Photos', { gender: 'female', count: 1 })).toBe('She added a photo')
+		expect(i18xs.t('general.Photos', { gender: 'male', count: 4 })).toBe('They added 4 photos')
+	})
+
+	it('Should keep groups with an other key as nested groups', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Settings.title', { gender: 'male' })).toBe('Settings')
+		expect(i18xs.t('general.Settings.other')).toBe('Other settings')
+	})
+
+	it('Should format unmarked objects of string variants reached as the message like select objects', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			localizations: { en: { Reply: { male: 'He replied', female: 'She replied', other: 'They replied' } } },
+		})
+
+		expect(i18xs.t('Reply', { gender: 'female' })).toBe('She replied')
+		expect(i18xs.t('Reply', { gender: 'male' })).toBe('He replied')
+		expect(i18xs.t('Reply')).toBe('They replied')
+	})
+
+	it('Should treat select-variant objects as leaves in findMissingKeys', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.findMissingKeys()).toEqual({ ar: ['Photos', 'Reply', 'Settings.other', 'Settings.title'] })
+	})
+})
+
+describe('I18XS Typed Placeholders', () => {
+	const localizations = {
+		en: {
+			general: {
+				Price: 'Total: {price, number, ::currency/EUR}',
+				Progress: '{pct, number, percent} done',
+				Count: '{count, number} users',
+				Rounded: '{value, number, integer} points',
+				Precision: '{value, number, ::.00}',
+				Due: 'Due on {when, date, short}',
+				Starts: 'Starts at {when, time}',
+				Long: '{when, date, long} at {when, time, short}',
+			},
+		},
+		de: {
+			general: {
+				Price: 'Gesamt: {price, number, ::currency/EUR}',
+			},
+		},
+	}
+	const when = new Date(2024, 2, 15, 14, 30)
+
+	it('Should format number placeholders with styles and skeletons', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'de'], localizations })
+
+		expect(i18xs.t('general.Price', { price: 1234.5 })).toBe('Total: €1,234.50')
+		expect(i18xs.t('general.Progress', { pct: 0.25 })).toBe('25% done')
+		expect(i18xs.t('general.Count', { count: 12000 })).toBe('12,000 users')
+		expect(i18xs.t('general.Rounded', { value: 9.7 })).toBe('10 points')
+		expect(i18xs.t('general.Precision', { value: 3 })).toBe('3.00')
+	})
+
+	it('Should format number placeholders using the current locale', async () => {
+		const i18xs = new I18XS({ currentLocale: 'de', supportedLocales: ['en', 'de'], localizations })
+
+		expect(i18xs.t('general.Price', { price: 1234.5 })).toBe(`Gesamt: ${i18xs.formatCurrency(1234.5, 'EUR')}`)
+	})
+
+	it('Should format date and time placeholders', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Due', { when })).toBe('Due on 3/15/24')
+		expect(i18xs.t('general.Starts', { when })).toBe('Starts at 2:30:00 PM')
+		expect(i18xs.t('general.Long', { when: when.getTime() })).toBe('March 15, 2024 at 2:30 PM')
+	})
+
+	it('Should resolve typed placeholders in replaceData', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.replaceData('{n, number, ::compact-short}', { n: 1500000 })).toBe('1.5M')
+		expect(i18xs.replaceData('Paid {amount, number, ::currency/USD}', {})).toBe('Paid {amount, number, ::currency/USD}')
+	})
+})
+
+describe('I18XS Date and Time Formatting', () => {
+	const date = Date.UTC(2024, 2, 15, 14, 30)
+
+	it('Should format dates in the current locale and time zone', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'de'], timeZone: 'UTC' })
+
+		expect(i18xs.formatDate(date)).toBe('Mar 15, 2024')
+		expect(i18xs.formatDate(new Date(date), { weekday: 'long', day: 'numeric', month: 'long' })).toBe(
+			'Friday, March 15'
+		)
+
+		i18xs.changeCurrentLocale('de')
+		expect(i18xs.formatDate(date, { dateStyle: 'short' })).toBe('15.03.24')
+	})
+
+	it('Should format times and date times with the configured time zone', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], timeZone: 'Asia/Tokyo' })
+
+		expect(i18xs.formatTime(date)).toBe('11:30 PM')
+		expect(i18xs.formatDateTime(date)).toBe('Mar 15, 2024, 11:30 PM')
+		expect(i18xs.formatTime(date, { timeZone: 'UTC', hour: 'numeric' })).toBe('2 PM')
+	})
+
+	it('Should format date ranges', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], timeZone: 'UTC' })
+
+		expect(i18xs.formatDateRange(date, Date.UTC(2024, 2, 20))).toBe('Mar 15 – 20, 2024')
+	})
+
+	it('Should format relative times with automatic unit selection', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+		const now = Date.UTC(2024, 2, 15, 12, 0)
+
+		expect(i18xs.formatRelativeTime(now - 3 * 60 * 1000, { now })).toBe('3 minutes ago')
+		expect(i18xs.formatRelativeTime(now + 2 * 24 * 60 * 60 * 1000, { now })).toBe('in 2 days')
+		expect(i18xs.formatRelativeTime(now - 30 * 1000, { now })).toBe('30 seconds ago')
+		expect(i18xs.formatRelativeTime(now - 400 * 24 * 60 * 60 * 1000, { now })).toBe('1 year ago')
+		expect(i18xs.formatRelativeTime(now - 24 * 60 * 60 * 1000, { now, numeric: 'auto' })).toBe('yesterday')
+		expect(i18xs.formatRelativeTime(now + 2 * 60 * 60 * 1000, { now, unit: 'minute' })).toBe('in 120 minutes')
+	})
+
+	it('Should fall back to the raw value for invalid dates', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.formatDate('not a date')).toBe('not a date')
+		expect(i18xs.formatRelativeTime('not a date')).toBe('not a date')
+		expect(i18xs.formatDateRange('a', 'b')).toBe('a – b')
+	})
+
+	it('Should use the configured time zone for typed placeholders', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], timeZone: 'UTC' })
+
+		expect(i18xs.replaceData('Starts at {when, time, short}', { when: date })).toBe('Starts at 2:30 PM')
+	})
+})
+
+describe('I18XS List, Unit, Duration and Display Names', () => {
+	it('Should format conjunction and disjunction lists', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'de'] })
+
+		expect(i18xs.formatList(['Red', 'Green', 'Blue'])).toBe('Red, Green, and Blue')
+		expect(i18xs.formatList(['Red', 'Green', 'Blue'], { type: 'disjunction' })).toBe('Red, Green, or Blue')
+
+		i18xs.changeCurrentLocale('de')
+		expect(i18xs.formatList(['Rot', 'Grün', 'Blau'])).toBe('Rot, Grün und Blau')
+	})
+
+	it('Should format units', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.formatUnit(12.5, 'kilometer')).toBe('12.5 km')
+		expect(i18xs.formatUnit(512, 'megabyte', { unitDisplay: 'long' })).toBe('512 megabytes')
+		expect(i18xs.formatUnit(3, 'not-a-unit')).toBe('3 not-a-unit')
+	})
+
+	it('Should format durations from parts and milliseconds', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.formatDuration({ hours: 2, minutes: 30 })).toBe('2 hours, 30 minutes')
+		expect(i18xs.formatDuration(90 * 60 * 1000, { style: 'short' })).toBe('1 hr, 30 min')
+		expect(i18xs.formatDuration((26 * 60 * 60 + 5) * 1000)).toBe('1 day, 2 hours, 5 seconds')
+		expect(i18xs.formatDuration(0)).toBe('0 seconds')
+	})
+
+	it('Should format negative durations with a single sign', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.formatDuration(-90 * 60 * 1000)).toBe('-1 hour, 30 minutes')
+		expect(i18xs.formatDuration(-(26 * 60 * 60 + 5) * 1000, { style: 'short' })).toBe('-1 day, 2 hr, 5 sec')
+		expect(i18xs.formatDuration({ hours: -2, minutes: -30 })).toBe('-2 hours, 30 minutes')
+		expect(() => i18xs.formatDuration({ hours: 2, minutes: -30 })).toThrow(RangeError)
+	})
+
+	it('Should get display names for languages, regions, currencies and scripts', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'] })
+
+		expect(i18xs.displayName('fr')).toBe('French')
+		expect(i18xs.displayName('EG', 'region')).toBe('Egypt')
+		expect(i18xs.displayName('EUR', 'currency')).toBe('Euro')
+		expect(i18xs.displayName('Arab', 'script')).toBe('Arabic')
+		expect(i18xs.displayName('not a code!')).toBe('not a code!')
+
+		i18xs.changeCurrentLocale('ar')
+		expect(i18xs.displayName('fr')).toBe('الفرنسية')
+	})
+})
+
+describe('I18XS Formatter Cache', () => {
+	class InspectableI18XS extends I18XS {
+		get formatters() {
+			return this._formatters
+		}
+	}
+
+	it('Should reuse formatters for the same locale and options', async () => {
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'] })
+
+		i18xs.formatNumber(1)
+		i18xs.formatNumber(2)
+		i18xs.formatCurrency(3, 'USD')
+		i18xs.formatCurrency(4, 'USD')
+
+		expect(i18xs.formatters.size).toBe(2)
+		expect(i18xs.formatNumber(1234.5)).toBe('1,234.5')
+		expect(i18xs.formatCurrency(99.99, 'USD')).toBe('$99.99')
+	})
+
+	it('Should share the cache across Intl helpers', async () => {
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		i18xs.formatList(['a', 'b'])
+		i18xs.formatDate(0)
+		i18xs.t('general.Items', { count: 2 })
+		i18xs.replaceData('{count, plural, one {# item} other {# items}}', { count: 2 })
+
+		expect([...i18xs.formatters.keys()].map((key) => key.split(':')[0]).sort()).toEqual([
+			'DateTimeFormat',
+			'ListFormat',
+			'NumberFormat',
+			'PluralRules',
+		])
+	})
+
+	it('Should invalidate the cache when the current locale changes', async () => {
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en', 'de'] })
+
+		i18xs.formatNumber(1234.5)
+		i18xs.changeCurrentLocale('de')
+
+		expect(i18xs.formatters.size).toBe(0)
+		expect(i18xs.formatNumber(1234.5)).toBe('1.234,5')
+	})
+
+	it('Should evict the least recently used formatter when the cache is full', async () => {
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en'], formatterCacheSize: 2 })
+
+		i18xs.formatCurrency(1, 'USD')
+		i18xs.formatCurrency(1, 'EUR')
+		i18xs.formatCurrency(1, 'USD')
+		i18xs.formatCurrency(1, 'GBP')
+
+		const keys = [...i18xs.formatters.keys()]
+		expect(keys).toHaveLength(2)
+		expect(keys.some((key) => key.includes('EUR'))).toBe(false)
+	})
+
+	it('Should not cache formatters when formatterCacheSize is 0', async () => {
+		const i18xs = new InspectableI18XS({ currentLocale: 'en', supportedLocales: ['en'], formatterCacheSize: 0 })
+
+		expect(i18xs.formatNumber(1000)).toBe('1,000')
+		expect(i18xs.formatters.size).toBe(0)
+	})
+})
+
+describe('I18XS Message Linking', () => {
+	const localizations = {
+		en: {
+			general: {
+				App_Name: 'I18XS',
+				Welcome: 'Welcome to @:general.App_Name, {name}!',
+				Footer: '$t(general.App_Name) © {year}',
+				Explicit: '@:(general.App_Name).',
+				Nested: 'About: @:general.Footer',
+				Items: '{count, plural, one {# item in @:general.App_Name} other {# items in $t(general.App_Name)}}',
+				Loop_A: 'A -> @:general.Loop_B',
+				Loop_B: 'B -> @:general.Loop_A',
+				Self: 'Self: @:general.Self',
+				Missing: 'Link: @:general.Not_There',
+			},
+		},
+		ar: {
+			general: {
+				Welcome: 'مرحبًا بك في @:general.App_Name، {name}!',
+			},
+		},
+	}
+
+	it('Should resolve references to other messages', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('general.Welcome', { name: 'John' })).toBe('Welcome to I18XS, John!')
+		expect(i18xs.t('general.Footer', { year: 2024 })).toBe('I18XS © 2024')
+		expect(i18xs.t('general.Explicit')).toBe('I18XS.')
+	})
+
+	it('Should resolve references recursively and inside ICU branches', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('general.Nested', { year: 2024 })).toBe('About: I18XS © 2024')
+		expect(i18xs.t('general.Items', { count: 1 })).toBe('1 item in I18XS')
+		expect(i18xs.t('general.Items', { count: 3 })).toBe('3 items in I18XS')
+	})
+
+	it('Should resolve references using the current locale and fallback locale', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'ar',
+			fallbackLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localizations: {
+				en: {
+					brand: { App_Name: 'I18XS' },
+					general: { Welcome: 'Welcome to @:brand.App_Name, @:general.Team' },
+				},
+				ar: {
+					general: { Welcome: 'مرحبًا بك في @:brand.App_Name، @:general.Team', Team: 'الفريق' },
+				},
+			},
+		})
+
+		expect(i18xs.t('general.Welcome')).toBe('مرحبًا بك في I18XS، الفريق')
+	})
+
+	it('Should leave circular references unresolved', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Loop_A')).toBe('A -> B -> @:general.Loop_A')
+		expect(i18xs.t('general.Self')).toBe('Self: @:general.Self')
+	})
+
+	it('Should render missing references like missing identifiers', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Missing')).toBe('Link: general.Not_There')
+	})
+})
+
+describe('I18XS Escaping and Interpolation Delimiters', () => {
+	it('Should output literal braces escaped with apostrophes or backslashes', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.replaceData('Type \'{name}\' to insert {name}', { name: 'John' })).toBe(
+			'Type {name} to insert John'
+		)
+		expect(i18xs.replaceData('Type \\{name\\} to insert {name}', { name: 'John' })).toBe(
+			'Type {name} to insert John'
+		)
+		expect(i18xs.replaceData('A backslash \\\\ and a path C:\\temp', { name: 'John' })).toBe(
+			'A backslash \\ and a path C:\\temp'
+		)
+		expect(i18xs.replaceData('Use \'{name}\', it\'\'s easy')).toBe('Use {name}, it\'s easy')
+		expect(i18xs.replaceData('Type \\{name\\} to insert {name}')).toBe('Type {name} to insert {name}')
+	})
+
+	it('Should escape literal braces in localized messages', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			localizations: { en: { general: { Hint: 'Use \\{name\\} for the name of {user}' } } },
+		})
+
+		expect(i18xs.t('general.Hint')).toBe('Use {name} for the name of {user}')
+		expect(i18xs.t('general.Hint', { user: 'Ann' })).toBe('Use {name} for the name of Ann')
+	})
+
+	it('Should handle keys containing regex metacharacters', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.replaceData('Total: {amount(usd)} {a+b} {$}', { 'amount(usd)': 5, 'a+b': 3, '$': 'x' })).toBe(
+			'Total: 5 3 x'
+		)
+		expect(i18xs.replaceData('{.*} stays', { 'a': 1 })).toBe('{.*} stays')
+	})
+
+	it('Should support configurable interpolation delimiters', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			interpolationDelimiters: ['{{', '}}'],
+			localizations: {
+				en: {
+					general: {
+						Welcome: 'Welcome {{name}}, your code is {secret}',
+						Items: '{{count, plural, one {# item} other {# items}}}',
+						Price: 'Price: {{price, number, ::currency/USD}}',
+						Missing: 'Hello {{name}}',
+					},
+				},
+			},
+		})
+
+		expect(i18xs.t('general.Welcome', { name: 'John', secret: 'x' })).toBe('Welcome John, your code is {secret}')
+		expect(i18xs.t('general.Items', { count: 2 })).toBe('2 items')
+		expect(i18xs.t('general.Price', { price: 5 })).toBe('Price: $5.00')
+		expect(i18xs.t('general.Missing')).toBe('Hello {{name}}')
+	})
+
+	it('Should support delimiters other than braces', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], interpolationDelimiters: ['%{', '}'] })
+
+		expect(i18xs.replaceData('Hello %{name} {name}', { name: 'John' })).toBe('Hello John {name}')
+	})
+})
+
+describe('I18XS Nested Placeholders and Value Formatters', () => {
+	it('Should resolve nested-path placeholders', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+		const data = { user: { name: 'John', address: { city: 'Cairo' } }, order: { items: ['a', 'b', 'c'] } }
+
+		expect(i18xs.replaceData('{user.name} from {user.address.city}', data)).toBe('John from Cairo')
+		expect(i18xs.replaceData('{order.items.length} items', data)).toBe('3 items')
+		expect(i18xs.replaceData('{user.phone} / {customer.name}', data)).toBe(' / {customer.name}')
+	})
+
+	it('Should only resolve own properties in nested-path placeholders', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+		const data = { user: Object.assign(Object.create({ inherited: 'Inherited' }), { name: 'John' }) }
+
+		expect(i18xs.replaceData('[{user.constructor}]', data)).toBe('[]')
+		expect(i18xs.replaceData('[{user.__proto__}] [{user.inherited}]', data)).toBe('[] []')
+		expect(i18xs.replaceData('{user.name}', data)).toBe('John')
+	})
+
+	it('Should prefer flat keys containing dots over nested paths', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.replaceData('{user.name}', { 'user.name': 'Flat', 'user': { name: 'Nested' } })).toBe('Flat')
+	})
+
+	it('Should use nested paths in plural, select and typed placeholders', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			localizations: {
+				en: {
+					general: {
+						Cart: '{cart.items.length, plural, one {# item} other {# items}} for {cart.total, number, ::currency/USD}',
+						Owner: '{owner.gender, select, female {Her cart} other {Their cart}}',
+					},
+				},
+			},
+		})
+		const cart = { items: [1, 2], total: 12 }
+
+		expect(i18xs.t('general.Cart', { cart })).toBe('2 items for $12.00')
+		expect(i18xs.t('general.Owner', { owner: { gender: 'female' } })).toBe('Her cart')
+	})
+
+	it('Should apply built-in value formatters', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.replaceData('{name|uppercase}', { name: 'John' })).toBe('JOHN')
+		expect(i18xs.replaceData('{name | lowercase}', { name: 'John' })).toBe('john')
+		expect(i18xs.replaceData('{name|trim|capitalize}', { name: '  john ' })).toBe('John')
+		expect(i18xs.replaceData('{bio|truncate:4}', { bio: 'Developer' })).toBe('Deve…')
+		expect(i18xs.replaceData('{user.name|uppercase}', { user: { name: 'ann' } })).toBe('ANN')
+		expect(i18xs.replaceData('{name|unknown}', { name: 'John' })).toBe('John')
+	})
+
+	it('Should apply registered and configured value formatters', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			formatters: { reverse: (value) => String(value).split('').reverse().join('') },
+		})
+
+		i18xs.registerFormatter('pad', (value, locale, length) => String(value).padStart(Number(length), '0'))
+
+		expect(i18xs.replaceData('{word|reverse}', { word: 'abc' })).toBe('cba')
+		expect(i18xs.replaceData('Order #{id|pad:6}', { id: 42 })).toBe('Order #000042')
+		expect(i18xs.replaceData('{price|pad:4, number}', { price: 7 })).toBe('7')
+		expect(i18xs.replaceData('{missing|pad:6}', {})).toBe('{missing|pad:6}')
+	})
+
+	it('Should use the current locale in value formatters', async () => {
+		const i18xs = new I18XS({ currentLocale: 'tr', supportedLocales: ['tr'] })
+
+		expect(i18xs.replaceData('{city|uppercase}', { city: 'istanbul' })).toBe('İSTANBUL')
+	})
+})
+
+describe('I18XS Rich Text Parts', () => {
+	const localizations = {
+		en: {
+			general: {
+				Terms: 'Hi {name}, read the <link>terms</link> and <bold>privacy <italic>policy</italic></bold>',
+				Line_Break: 'First line<br/>Second line',
+				Unclosed: 'a < b and <bold>open',
+				Items: '{count, plural, one {<bold>#</bold> item} other {<bold>#</bold> items}}',
+				Brand: 'Acme',
+				Linked: 'Welcome to <bold>@:general.Brand</bold>',
+			},
+		},
+	}
+
+	it('Should return text and tag parts', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.tParts('general.Terms', { name: 'John' })).toEqual([
+			'Hi John, read the ',
+			{ type: 'tag', name: 'link', children: ['terms'] },
+			' and ',
+			{ type: 'tag', name: 'bold', children: ['privacy ', { type: 'tag', name: 'italic', children: ['policy'] }] },
+		])
+		expect(i18xs.tParts('general.Line_Break')).toEqual([
+			'First line',
+			{ type: 'tag', name: 'br', children: [] },
+			'Second line',
+		])
+	})
+
+	it('Should render tags with the given renderers', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+		const parts = i18xs.formatMessageParts(
+			'general.Terms',
+			{ name: 'John' },
+			{
+				link: (children) => `[${children.join('')}](/terms)`,
+				bold: (children) => `**${children.join('')}**`,
+				italic: (children) => `_${children.join('')}_`,
+			}
+		)
+
+		expect(parts.join('')).toBe('Hi John, read the [terms](/terms) and **privacy _policy_**')
+	})
+
+	it('Should keep tag parts without a renderer and pass the tag name to renderers', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+		const parts = i18xs.tParts('general.Terms', { name: 'John' }, { italic: (children, name) => ({ name, children }) })
+
+		expect(parts[3]).toEqual({
+			type: 'tag',
+			name: 'bold',
+			children: ['privacy ', { name: 'italic', children: ['policy'] }],
+		})
+	})
+
+	it('Should not parse markup inside placeholder values', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.tParts('general.Terms', { name: '<bold>Eve</bold>' })[0]).toBe('Hi <bold>Eve</bold>, read the ')
+	})
+
+	it('Should keep unmatched tags as text', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.tParts('general.Unclosed')).toEqual(['a < b and <bold>open'])
+		expect(i18xs.tParts('general.Unknown')).toEqual(['general.Unknown'])
+	})
+
+	it('Should support tags in plural branches and linked messages', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.tParts('general.Items', { count: 3 })).toEqual([{ type: 'tag', name: 'bold', children: ['3'] }, ' items'])
+		expect(i18xs.tParts('general.Linked')).toEqual(['Welcome to ', { type: 'tag', name: 'bold', children: ['Acme'] }])
+	})
+})
+
+describe('I18XS HTML-Safe Interpolation', () => {
+	const localizations = {
+		en: {
+			general: {
+				Comment: '<p>{author} wrote: <em>{comment}</em></p>',
+				Total: '<b>{total, number, ::currency/USD}</b> for {count, plural, one {# item} other {# items}}',
+				Signature: '<footer>@:general.Comment</footer>',
+			},
+		},
+	}
+	const data = { author: 'Tom & Jerry', comment: '<script>alert("x")</script>' }
+
+	it('Should not escape values by default', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(i18xs.t('general.Comment', data)).toBe(
+			'<p>Tom & Jerry wrote: <em><script>alert("x")</script></em></p>'
+		)
+	})
+
+	it('Should escape interpolated values and keep the message markup with escapeValues', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations, escapeValues: true })
+
+		expect(i18xs.t('general.Comment', data)).toBe(
+			'<p>Tom &amp; Jerry wrote: <em>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</em></p>'
+		)
+		expect(i18xs.t('general.Signature', { author: '\'Ann\'', comment: 'Hi' })).toBe(
+			'<footer><p>&#39;Ann&#39; wrote: <em>Hi</em></p></footer>'
+		)
+		expect(i18xs.t('general.Total', { total: 5, count: 2 })).toBe('<b>$5.00</b> for 2 items')
+	})
+
+	it('Should override the configured escaping per call', async () => {
+		const escaping = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations, escapeValues: true })
+		const raw = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations })
+
+		expect(escaping.t('general.Comment', data, { escapeValues: false })).toContain('<script>')
+		expect(raw.formatMessage('general.Comment', data, { escapeValues: true })).toContain('&lt;script&gt;')
+		expect(raw.replaceData('<i>{name}</i>', { name: '<b>' }, { escapeValues: true })).toBe('<i>&lt;b&gt;</i>')
+	})
+
+	it('Should insert values marked as trusted HTML as is', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], localizations, escapeValues: true })
+
+		expect(
+			i18xs.t('general.Comment', { author: i18xs.trustHtml('<a href="/ann">Ann</a>'), comment: '<b>Hi</b>' })
+		).toBe('<p><a href="/ann">Ann</a> wrote: <em>&lt;b&gt;Hi&lt;/b&gt;</em></p>')
+		expect(i18xs.replaceData('{name|uppercase}', { name: i18xs.trustHtml('<b>ann</b>') })).toBe('<B>ANN</B>')
+	})
+})
+
+describe('I18XS Locale Fallback Chains', () => {
+	const localizations = {
+		'en': { general: { Hello: 'Hello', Cart: 'Cart', Checkout: 'Checkout' } },
+		'es': { general: { Hello: 'Hola', Cart: 'Carrito' } },
+		'es-MX': { general: { Cart: 'Carro' } },
+		'pt': { general: { Hello: 'Olá' } },
+		'pt-PT': { general: { Cart: 'Carrinho' } },
+	}
+
+	it('Should derive the chain from BCP 47 truncation and the fallback locale', async () => {
+		const i18xs = new I18XS({ currentLocale: 'es-MX', fallbackLocale: 'en', localizations })
+
+		expect(i18xs.getLocaleChain()).toEqual(['es-MX', 'es', 'en'])
+		expect(i18xs.getLocaleChain('zh-Hant-TW')).toEqual(['zh-Hant-TW', 'zh-Hant', 'zh', 'en'])
+		expect(i18xs.getLocaleChain('en-GB')).toEqual(['en-GB', 'en'])
+	})
+
+	it('Should insert explicit fallback locales after the parent locales', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'pt-BR',
+			fallbackLocale: 'en',
+			fallbackLocales: { 'pt-BR': ['pt-PT', 'es'], 'es': ['pt-BR'] },
+			localizations,
+		})
+
+		expect(i18xs.getLocaleChain()).toEqual(['pt-BR', 'pt', 'pt-PT', 'es', 'en'])
+		expect(i18xs.getLocaleChain('es-AR')).toEqual(['es-AR', 'es', 'pt-BR', 'pt', 'pt-PT', 'en'])
+	})
+
+	it('Should fall through the chain key by key', async () => {
+		const i18xs = new I18XS({ currentLocale: 'es-MX', fallbackLocale: 'en', localizations })
+
+		expect(i18xs.t('general.Cart')).toBe('Carro')
+		expect(i18xs.t('general.Hello')).toBe('Hola')
+		expect(i18xs.t('general.Checkout')).toBe('Checkout')
+		expect(i18xs.t('general.Unknown')).toBe('general.Unknown')
+		expect(i18xs.hasIdentifier('general.Checkout')).toBe(true)
+	})
+
+	it('Should follow explicit fallback locales when resolving messages', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'pt-BR',
+			supportedLocales: ['pt-BR', 'es-AR'],
+			fallbackLocale: 'en',
+			fallbackLocales: { 'pt-BR': ['pt-PT'] },
+			localizations,
+		})
+
+		expect(i18xs.t('general.Hello')).toBe('Olá')
+		expect(i18xs.t('general.Cart')).toBe('Carrinho')
+		expect(i18xs.t('general.Checkout')).toBe('Checkout')
+
+		i18xs.changeCurrentLocale('es-AR')
+		expect(i18xs.t('general.Cart')).toBe('Carrito')
+	})
+
+	it('Should fall through merged localizations key by key', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'es-MX',
+			fallbackLocale: 'en',
+			localizations: {
+				'en': { __merged__: { Hello: 'Hello', Checkout: 'Checkout' } },
+				'es': { __merged__: { Hello: 'Hola' } },
+				'es-MX': { __merged__: { Cart: 'Carro' } },
+			},
+		})
+
+		expect(i18xs.t('Cart')).toBe('Carro')
+		expect(i18xs.t('general.Hello')).toBe('Hola')
+		expect(i18xs.t('Checkout')).toBe('Checkout')
+	})
+})
+
+describe('I18XS Per-Key Fallback Report', () => {
+	const localizations = {
+		en: { __merged__: { Hello: 'Hello', Checkout: 'Checkout', Nested: { Title: 'Title' } } },
+		ar: { __merged__: { Hello: 'مرحبا' } },
+	}
+
+	it('Should fall back to the fallback locale merged localization for missing keys', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ar', supportedLocales: ['en', 'ar'], localizations })
+
+		expect(i18xs.t('Hello')).toBe('مرحبا')
+		expect(i18xs.t('Checkout')).toBe('Checkout')
+		expect(i18xs.t('general.Nested.Title')).toBe('Title')
+		expect(i18xs.t('Unknown')).toBe('Unknown')
+	})
+
+	it('Should report the locale that served each key', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'ar',
+			supportedLocales: ['en', 'ar'],
+			localizations,
+			reportResolvedLocales: true,
+		})
+
+		i18xs.t('Hello')
+		i18xs.t('Checkout')
+		i18xs.t('Unknown')
+
+		expect(i18xs.getResolvedLocales()).toEqual({ Hello: 'ar', Checkout: 'en', Unknown: null })
+		expect(i18xs.getMessageLocale('Nested.Title')).toBe('en')
+		expect(i18xs.getMessageLocale('Missing')).toBeNull()
+	})
+
+	it('Should reset the report when the locale changes', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'ar',
+			supportedLocales: ['en', 'ar'],
+			localizations,
+			reportResolvedLocales: true,
+		})
+
+		i18xs.t('Checkout')
+		i18xs.changeCurrentLocale('en')
+
+		expect(i18xs.getResolvedLocales()).toEqual({})
+		expect(i18xs.getMessageLocale('Checkout')).toBe('en')
+	})
+
+	it('Should not record lookups unless reporting or logging', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ar', supportedLocales: ['en', 'ar'], localizations })
+
+		i18xs.t('Hello')
+		i18xs.t(`Dynamic_${Date.now()}`)
+
+		expect(i18xs.getResolvedLocales()).toEqual({})
+		expect(i18xs.getMessageLocale('Checkout')).toBe('en')
+		expect(i18xs.getResolvedLocales()).toEqual({})
+	})
+})
+
+describe('I18XS Merge Strategies and Conflicts', () => {
+	const mergeDir = `${process.cwd()}/src/tests/data/merge`
+
+	it('Should deep merge nested objects from different files by default', async () => {
+		const i18xs = new I18XS({ localesDir: mergeDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.t('errors.email')).toBe('Invalid email')
+		expect(i18xs.t('errors.min')).toBe('Too short')
+		expect(i18xs.t('errors.required')).toBe('This field is required')
+		expect(i18xs.t('Items', { count: 1 })).toBe('1 entries')
+	})
+
+	it('Should not mutate the cached file localizations while merging', async () => {
+		class InspectableI18XS extends I18XS {
+			get localizations() {
+				return this._localizations
+			}
+		}
+		const i18xs = new InspectableI18XS({ localesDir: mergeDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.localizations.en.common.errors).toEqual({ required: 'Required', email: 'Invalid email' })
+	})
+
+	it('Should report conflicting keys with the winning and losing files', async () => {
+		const i18xs = new I18XS({ localesDir: mergeDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.getMergeConflicts()).toEqual([
+			{
+				locale: 'en',
+				path: 'errors.required',
+				winner: `${mergeDir}/en/forms.json`,
+				loser: `${mergeDir}/en/common.json`,
+			},
+			{ locale: 'en', path: 'Items', winner: `${mergeDir}/en/forms.json`, loser: `${mergeDir}/en/common.json` },
+		])
+	})
+
+	it('Should replace top-level keys with the shallow strategy', async () => {
+		const i18xs = new I18XS({
+			localesDir: mergeDir,
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			mergeStrategy: 'shallow',
+		})
+
+		expect(i18xs.t('errors.email')).toBe('errors.email')
+		expect(i18xs.t('errors.min')).toBe('Too short')
+		expect(i18xs.getMergeConflicts().map(({ path }) => path)).toEqual(['errors', 'Items'])
+	})
+
+	it('Should throw on conflicts with the error strategy', async () => {
+		expect(
+			() => new I18XS({ localesDir: mergeDir, currentLocale: 'en', supportedLocales: ['en'], mergeStrategy: 'error' })
+		).toThrow('Conflicting localization key "errors.required" for locale en')
+		expect(
+			() => new I18XS({ localesDir: dir, currentLocale: 'en', supportedLocales: ['en', 'ar'], mergeStrategy: 'error' })
+		).not.toThrow()
+	})
+})
+
+describe('I18XS Strict Namespaces and Fixed Translators', () => {
+	const featuresDir = `${process.cwd()}/src/tests/data/features`
+
+	it('Should resolve keys from any file without strict namespaces', async () => {
+		const i18xs = new I18XS({ localesDir: dir, currentLocale: 'en', supportedLocales: ['en', 'ar'] })
+
+		expect(i18xs.t('common.Hello_World')).toBe('Hello World')
+	})
+
+	it('Should only read the file named by the first segment with strict namespaces', async () => {
+		const i18xs = new I18XS({
+			localesDir: dir,
+			featuresDir,
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			strictNamespaces: true,
+		})
+
+		expect(i18xs.t('common.Hello_World')).toBe('common.Hello_World')
+		expect(i18xs.t('Hello_World')).toBe('Hello_World')
+		expect(i18xs.t('general.Hello_World')).toBe('Hello World')
+		expect(i18xs.t('common.Success')).toBe('Success')
+		expect(i18xs.t('foo.Hello_World')).toBe('Hello World')
+		expect(i18xs.hasIdentifier('common.Hello_World')).toBe(false)
+	})
+
+	it('Should keep the locale fallback chain with strict namespaces', async () => {
+		const i18xs = new I18XS({
+			localesDir: dir,
+			currentLocale: 'ar',
+			supportedLocales: ['en', 'ar'],
+			strictNamespaces: true,
+			localizations: { ar: { extra: { Title: 'عنوان' } }, en: { extra: { Title: 'Title', Body: 'Body' } } },
+		})
+
+		expect(i18xs.t('extra.Title')).toBe('عنوان')
+		expect(i18xs.t('extra.Body')).toBe('Body')
+	})
+
+	it('Should scope a fixed translator to a namespace', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			strictNamespaces: true,
+			localizations: {
+				en: {
+					checkout: { title: 'Checkout', total: 'Total: {amount}', steps: { payment: 'Payment' } },
+					profile: { title: 'Profile' },
+				},
+			},
+		})
+		const checkoutT = i18xs.getFixedT('checkout')
+		const profileT = i18xs.getFixedT('profile')
+
+		expect(checkoutT('title')).toBe('Checkout')
+		expect(profileT('title')).toBe('Profile')
+		expect(checkoutT('total', { amount: '<5>' }, { escapeValues: true })).toBe('Total: &lt;5&gt;')
+		expect(i18xs.getFixedT('checkout.steps')('payment')).toBe('Payment')
+		expect(profileT('total')).toBe('profile.total')
+	})
+})
+
+describe('I18XS Asynchronous Loading and Backends', () => {
+	const featuresDir = `${process.cwd()}/src/tests/data/features`
+
+	const createMemoryBackend = (localizations: Record<string, Record<string, Record<string, string>>>) => {
+		const reads: string[] = []
+		const backend = {
+			reads,
+			async read(locale: string, namespace: string) {
+				reads.push(`${locale}:${namespace}`)
+				await new Promise((resolve) => setTimeout(resolve, 5))
+				if (namespace === 'broken') throw new Error('Network error')
+				return localizations[locale]?.[namespace]
+			},
+			async listNamespaces(locale: string) {
+				return Object.keys(localizations[locale] ?? {})
+			},
+		}
+		return backend
+	}
+
+	it('Should load the current locale chain from the backend before ready resolves', async () => {
+		const backend = createMemoryBackend({
+			en: { general: { Hello: 'Hello', Bye: 'Bye' } },
+			ar: { general: { Hello: 'مرحبا' } },
+		})
+		const i18xs = new I18XS({ currentLocale: 'ar', supportedLocales: ['en', 'ar'], backend })
+
+		expect(i18xs.t('general.Hello')).toBe('general.Hello')
+
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello')).toBe('مرحبا')
+		expect(i18xs.t('Bye')).toBe('Bye')
+		expect(backend.reads.sort()).toEqual(['ar:general', 'en:general'])
+	})
+
+	it('Should deduplicate loads of the same locale and namespace in flight', async () => {
+		const backend = createMemoryBackend({ fr: { general: { Hello: 'Bonjour' } } })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'fr'], backend, namespaces: ['general'] })
+
+		await i18xs.ready
+		backend.reads.length = 0
+
+		await Promise.all([i18xs.loadLocale('fr'), i18xs.loadLocale('fr', ['general']), i18xs.loadLocale('fr')])
+		expect(backend.reads).toEqual(['fr:general'])
+
+		await i18xs.loadLocale('fr')
+		expect(backend.reads).toEqual(['fr:general', 'fr:general'])
+	})
+
+	it('Should skip namespaces that fail to load', async () => {
+		const backend = createMemoryBackend({ en: { general: { Hello: 'Hello' } } })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], backend })
+
+		await i18xs.loadLocale('en', ['broken', 'general', 'missing'])
+
+		expect(i18xs.t('general.Hello')).toBe('Hello')
+	})
+
+	it('Should load the new locale chain when the current locale changes', async () => {
+		const backend = createMemoryBackend({ en: { general: { Hello: 'Hello' } }, ar: { general: { Hello: 'مرحبا' } } })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'ar'], fallbackLocale: 'en', backend })
+
+		await i18xs.ready
+		i18xs.changeCurrentLocale('ar')
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello')).toBe('مرحبا')
+	})
+
+	it('Should drop loads of the previous backend finishing after a reconfiguration', async () => {
+		const previous = createMemoryBackend({ en: { general: { Hello: 'Old hello' } } })
+		const next = createMemoryBackend({ en: { general: { Bye: 'Bye' } } })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], backend: previous })
+		const load = i18xs.loadLocale('en', ['general'])
+
+		i18xs.configure({ currentLocale: 'en', supportedLocales: ['en'], backend: next })
+		await Promise.all([load, i18xs.ready])
+
+		expect(i18xs.t('general.Hello')).toBe('general.Hello')
+		expect(i18xs.t('general.Bye')).toBe('Bye')
+	})
+
+	it('Should read traditional and feature files with the file system backend', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'ar',
+			supportedLocales: ['en', 'ar'],
+			localesDir: '',
+			strictNamespaces: true,
+			backend: createFileSystemBackend({ localesDir: dir, featuresDir }),
+		})
+
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello_World')).toBe('مرحبًا بالعالم')
+		expect(i18xs.t('common.Success')).toBe('نجاح')
+		expect(i18xs.t('foo.Hello_World')).toBe('مرحبًا بالعالم')
+		expect(await createFileSystemBackend({ localesDir: dir, featuresDir }).listNamespaces?.('en')).toEqual([
+			'bar',
+			'common',
+			'foo',
+			'general',
+			'validation',
+		])
+	})
+
+	it.skipIf(!Bun.which('node'))('Should read files with the file system backend in Node.js ES modules', async () => {
+		const outdir = mkdtempSync(`${tmpdir()}/i18xs-esm-`)
+		// Bundled for the browser so `require` is only defined when the runtime defines it, which ES modules don't
+		const { outputs } = await Bun.build({
+			entrypoints: [`${process.cwd()}/src/backends/index.ts`],
+			outdir,
+			target: 'browser',
+			format: 'esm',
+			external: ['node:fs/promises'],
+		})
+		const script = [
+			`import { createFileSystemBackend } from ${JSON.stringify(pathToFileURL(outputs[0].path).href)}`,
+			`const backend = createFileSystemBackend({ localesDir: ${JSON.stringify(dir)} })`,
+			'console.log(JSON.stringify([await backend.read(\'en\', \'common\'), await backend.listNamespaces(\'en\')]))',
+		].join('\n')
+		const result = Bun.spawnSync(['node', '--input-type=module', '-e', script])
+		const [localization, namespaces] = JSON.parse(result.stdout.toString())
+
+		expect(localization.Success).toBe('Success')
+		expect(namespaces).toEqual(['common', 'general', 'validation'])
+
+		rmSync(outdir, { recursive: true, force: true })
+	})
+
+	it('Should read files in any registered format with the file system backend', async () => {
+		const formatsDir = `${process.cwd()}/src/tests/data/formats`
+		const backend = createFileSystemBackend({
+			localesDir: formatsDir,
+			parsers: { pipe: (content) => Object.fromEntries(content.trim().split('\n').map((line) => line.split('|'))) },
+		})
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localesDir: '',
+			strictNamespaces: true,
+			backend,
+		})
+
+		await i18xs.ready
+
+		expect(await backend.listNamespaces?.('en')).toEqual(['common', 'extra', 'general', 'legacy'])
+		expect(await backend.listNamespaces?.('ar')).toEqual(['general'])
+		expect(i18xs.t('general.general.hello', { name: 'Ann' })).toBe('Hello Ann')
+		expect(i18xs.t('common.common.save')).toBe('Save')
+		expect(i18xs.t('legacy.legacy.title')).toBe('Legacy title')
+		expect(i18xs.t('extra.notes')).toBe('Notes')
+		expect(await createFileSystemBackend({ loadPath: `${formatsDir}/{{lng}}/{{ns}}.yml` }).read('ar', 'general')).toEqual({
+			general: { hello: 'مرحبا {name}' },
+		})
+	})
+
+	it('Should fetch localization files with the fetch backend', async () => {
+		const requests: string[] = []
+		const fetch = (async (url: string) => {
+			requests.push(url)
+			if (url.endsWith('/en/general.json')) return Response.json({ Hello: 'Hello {name}' })
+			return new Response('Not Found', { status: 404 })
+		}) as typeof globalThis.fetch
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			namespaces: ['general', 'checkout'],
+			backend: createFetchBackend({ baseUrl: 'https://cdn.example.com/locales/', fetch }),
+		})
+
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello', { name: 'Ann' })).toBe('Hello Ann')
+		expect(requests.sort()).toEqual([
+			'https://cdn.example.com/locales/en/checkout.json',
+			'https://cdn.example.com/locales/en/general.json',
+		])
+	})
+})
+
+describe('I18XS HTTP Backend', () => {
+	const hits: Record<string, number> = {}
+	let notModified = 0
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			const { pathname } = new URL(request.url)
+			hits[pathname] = (hits[pathname] ?? 0) + 1
+
+			switch (pathname) {
+				case '/locales/en/general.json':
+					if (request.headers.get('If-None-Match') === '"v1"') {
+						notModified++
+						return new Response(null, { status: 304 })
+					}
+					return Response.json({ Hello: 'Hello' }, { headers: { ETag: '"v1"' } })
+				case '/locales/en/dated.json':
+					if (request.headers.get('If-Modified-Since')) {
+						notModified++
+						return new Response(null, { status: 304 })
+					}
+					return Response.json({ Dated: 'Dated' }, { headers: { 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' } })
+				case '/locales/en/flaky.json':
+					if (hits[pathname] < 3) return new Response('Unavailable', { status: 503 })
+					return Response.json({ Flaky: 'Flaky' })
+				case '/locales/en/forbidden.json':
+					return new Response('Forbidden', { status: 403 })
+				case '/locales/en/slow.json':
+					await new Promise((resolve) => setTimeout(resolve, 200))
+					return Response.json({ Slow: 'Slow' })
+				case '/locales/en/stalled.json':
+					// The headers and the start of the body are sent, the rest never comes
+					return new Response(
+						new ReadableStream({
+							start(controller) {
+								controller.enqueue(new TextEncoder().encode('{"Stalled":'))
+							},
+						}),
+						{ headers: { 'Content-Type': 'application/json' } }
+					)
+				case '/locales/en/namespaces.json':
+					return Response.json(['general', 'dated'])
+				case '/locales/en/invalid-namespaces.json':
+					return new Response('Bad Request', { status: 400 })
+				default:
+					return new Response('Not Found', { status: 404 })
+			}
+		},
+	})
+	const loadPath = `http://localhost:${server.port}/locales/{{lng}}/{{ns}}.json`
+
+	afterAll(() => {
+		server.stop(true)
+	})
+
+	it('Should load namespaces from the path template', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			namespaces: ['general', 'missing'],
+			backend: createFetchBackend({ loadPath }),
+		})
+
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello')).toBe('Hello')
+		expect(i18xs.t('missing.Hello')).toBe('Hello')
+	})
+
+	it('Should revalidate loaded files with ETag and Last-Modified', async () => {
+		const backend = createFetchBackend({ loadPath })
+
+		expect(await backend.read('en', 'general')).toEqual({ Hello: 'Hello' })
+		expect(await backend.read('en', 'general')).toEqual({ Hello: 'Hello' })
+		expect(await backend.read('en', 'dated')).toEqual({ Dated: 'Dated' })
+		expect(await backend.read('en', 'dated')).toEqual({ Dated: 'Dated' })
+		expect(notModified).toBe(2)
+	})
+
+	it('Should retry failed requests with backoff', async () => {
+		const backend = createFetchBackend({ loadPath, retries: 2, retryDelay: 1 })
+
+		expect(await backend.read('en', 'flaky')).toEqual({ Flaky: 'Flaky' })
+		expect(hits['/locales/en/flaky.json']).toBe(3)
+	})
+
+	it('Should not retry client errors', async () => {
+		const backend = createFetchBackend({ loadPath, retries: 2, retryDelay: 1 })
+
+		await expect(backend.read('en', 'forbidden')).rejects.toThrow('403')
+		expect(hits['/locales/en/forbidden.json']).toBe(1)
+	})
+
+	it('Should abort requests after the timeout', async () => {
+		const backend = createFetchBackend({ loadPath, timeout: 20, retries: 1, retryDelay: 1 })
+
+		await expect(backend.read('en', 'slow')).rejects.toThrow()
+		expect(hits['/locales/en/slow.json']).toBe(2)
+	})
+
+	it('Should abort requests whose body stalls after the headers', async () => {
+		const backend = createFetchBackend({ loadPath, timeout: 50, retries: 0 })
+
+		await expect(backend.read('en', 'stalled')).rejects.toThrow()
+	})
+
+	it('Should list namespaces from the namespaces manifest', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			backend: createFetchBackend({ loadPath, namespacesPath: loadPath.replace('{{ns}}', 'namespaces') }),
+		})
+
+		await i18xs.ready
+
+		expect(i18xs.t('general.Hello')).toBe('Hello')
+		expect(i18xs.t('dated.Dated')).toBe('Dated')
+	})
+
+	it('Should load explicit namespaces when the namespaces manifest fails', async () => {
+		const backend = createFetchBackend({ loadPath, namespacesPath: loadPath.replace('{{ns}}', 'invalid-namespaces') })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], backend })
+
+		await i18xs.ready
+		expect(i18xs.t('general.Hello')).toBe('general.Hello')
+
+		await i18xs.loadLocale('en', ['general'])
+
+		expect(i18xs.t('general.Hello')).toBe('Hello')
+	})
+
+	it('Should not load anything without namespaces or a manifest', async () => {
+		const backend = createFetchBackend({ loadPath })
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en'], backend })
+
+		await i18xs.loadLocale('en')
+
+		expect(backend.listNamespaces).toBeUndefined()
+		expect(i18xs.t('general.Hello')).toBe('general.Hello')
+	})
+
+	it('Should read files from a path template with the file system backend', async () => {
+		const backend = createFileSystemBackend({ loadPath: `${dir}/{{lng}}/{{ns}}.json` })
+
+		expect(await backend.read('en', 'common')).toEqual({ Success: 'Success', Failed: 'Failed' })
+		expect(await backend.read('fr', 'common')).toBeUndefined()
+	})
+})
+
+describe('I18XS Watching Localization Files', () => {
+	const createLocalesDir = () => {
+		const localesDir = mkdtempSync(`${tmpdir()}/i18xs-watch-`)
+		mkdirSync(`${localesDir}/en`)
+		writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hello', errors: { required: 'Required' } }))
+		writeFileSync(`${localesDir}/en/forms.json`, JSON.stringify({ errors: { min: 'Too short' } }))
+		return localesDir
+	}
+
+	const waitForChange = (i18xs: I18XS) =>
+		new Promise((resolve) => {
+			const unsubscribe = i18xs.onLocalizationChange((event) => {
+				unsubscribe()
+				resolve(event)
+			})
+		})
+
+	it('Should reload changed files and rebuild the merged localization', async () => {
+		const localesDir = createLocalesDir()
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watch: true, watchDebounce: 10 })
+
+		try {
+			expect(i18xs.t('Hello')).toBe('Hello')
+
+			const change = waitForChange(i18xs)
+			writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hi', errors: { required: 'Needed' } }))
+
+			expect(await change).toEqual({ locale: 'en', namespace: 'general', filePath: `${localesDir}/en/general.json` })
+			expect(i18xs.t('Hello')).toBe('Hi')
+			expect(i18xs.t('general.Hello')).toBe('Hi')
+			expect(i18xs.t('errors.required')).toBe('Needed')
+			expect(i18xs.t('errors.min')).toBe('Too short')
+		} finally {
+			i18xs.stopWatching()
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+
+	it('Should keep imported messages when reloading a changed file', async () => {
+		const localesDir = createLocalesDir()
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watch: true, watchDebounce: 10 })
+
+		try {
+			i18xs.importCsv('key,en\nerrors.email,Invalid email\nGoodbye,Goodbye\n')
+
+			const change = waitForChange(i18xs)
+			writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hi' }))
+			await change
+
+			expect(i18xs.t('Hello')).toBe('Hi')
+			expect(i18xs.t('Goodbye')).toBe('Goodbye')
+			expect(i18xs.t('errors.email')).toBe('Invalid email')
+			expect(i18xs.t('errors.min')).toBe('Too short')
+			expect(i18xs.hasIdentifier('errors.required')).toBe(false)
+		} finally {
+			i18xs.stopWatching()
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+
+	it('Should restore keys of other files when a changed file stops defining them', async () => {
+		const localesDir = createLocalesDir()
+		writeFileSync(`${localesDir}/en/forms.json`, JSON.stringify({ errors: { min: 'Too short', required: 'Mandatory' } }))
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watch: true, watchDebounce: 10 })
+
+		try {
+			expect(i18xs.t('errors.required')).toBe('Required')
+
+			const change = waitForChange(i18xs)
+			writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hi' }))
+			await change
+
+			expect(i18xs.t('Hello')).toBe('Hi')
+			expect(i18xs.t('errors.required')).toBe('Mandatory')
+			expect(i18xs.t('errors.min')).toBe('Too short')
+		} finally {
+			i18xs.stopWatching()
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+
+	it('Should keep the previous content of files with invalid JSON', async () => {
+		const localesDir = createLocalesDir()
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watch: true, watchDebounce: 10 })
+		let changes = 0
+		i18xs.onLocalizationChange(() => changes++)
+
+		try {
+			writeFileSync(`${localesDir}/en/general.json`, '{ "Hello": "Hal')
+			await new Promise((resolve) => setTimeout(resolve, 100))
+
+			expect(changes).toBe(0)
+			expect(i18xs.t('Hello')).toBe('Hello')
+
+			const change = waitForChange(i18xs)
+			writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hallo' }))
+			await change
+
+			expect(i18xs.t('Hello')).toBe('Hallo')
+		} finally {
+			i18xs.stopWatching()
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+
+	it('Should debounce bursts of changes to the same file', async () => {
+		const localesDir = createLocalesDir()
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watch: true, watchDebounce: 50 })
+		let changes = 0
+		i18xs.onLocalizationChange(() => changes++)
+
+		try {
+			for (const value of ['One', 'Two', 'Three']) {
+				writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: value }))
+			}
+			await new Promise((resolve) => setTimeout(resolve, 200))
+
+			expect(changes).toBe(1)
+			expect(i18xs.t('Hello')).toBe('Three')
+		} finally {
+			i18xs.stopWatching()
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+
+	it('Should not watch files without the watch option', async () => {
+		const localesDir = createLocalesDir()
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'], watchDebounce: 10 })
+
+		try {
+			writeFileSync(`${localesDir}/en/general.json`, JSON.stringify({ Hello: 'Hi' }))
+			await new Promise((resolve) => setTimeout(resolve, 50))
+
+			expect(i18xs.t('Hello')).toBe('Hello')
+		} finally {
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+})
+
+describe('I18XS Localization File Formats', () => {
+	const formatsDir = `${process.cwd()}/src/tests/data/formats`
+	const parsePipe = (content: string) =>
+		Object.fromEntries(
+			content
+				.split('\n')
+				.filter(Boolean)
+				.map((line) => line.split('|'))
+		)
+
+	it('Should preload YAML, JSON5 and properties files', async () => {
+		const i18xs = new I18XS({ localesDir: formatsDir, currentLocale: 'en', supportedLocales: ['en', 'ar'] })
+
+		expect(i18xs.t('general.hello', { name: 'Ann' })).toBe('Hello Ann')
+		expect(i18xs.t('general.items', { count: 2 })).toBe('2 items')
+		expect(i18xs.t('general.about')).toBe('Line one\nLine two\n')
+		expect(i18xs.t('common.save')).toBe('Save')
+		expect(i18xs.t('common.cancel')).toBe('Cancel')
+		expect(i18xs.t('legacy.title')).toBe('Legacy title')
+		expect(i18xs.t('legacy.welcome')).toBe('Welcome back')
+
+		i18xs.changeCurrentLocale('ar')
+		expect(i18xs.t('general.hello', { name: 'Ann' })).toBe('مرحبا Ann')
+	})
+
+	it('Should lazy load files in any registered format', async () => {
+		const i18xs = new I18XS({
+			localesDir: formatsDir,
+			currentLocale: 'ar',
+			supportedLocales: ['en', 'ar'],
+			preloadLocalizations: false,
+		})
+
+		expect(i18xs.t('general.general.hello', { name: 'Ann' })).toBe('مرحبا Ann')
+		expect(i18xs.t('legacy.legacy.title')).toBe('Legacy title')
+	})
+
+	it('Should use parsers registered for custom formats', async () => {
+		const configured = new I18XS({
+			localesDir: formatsDir,
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			parsers: { pipe: parsePipe },
+		})
+		const registered = new I18XS({ localesDir: formatsDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(configured.t('notes')).toBe('Notes')
+		expect(registered.t('notes')).toBe('notes')
+
+		registered.registerParser('.pipe', parsePipe).preloadAllLocalizations()
+		expect(registered.t('extra.notes')).toBe('Notes')
+	})
+
+	it('Should replace built-in parsers', async () => {
+		const i18xs = new I18XS({
+			localesDir: formatsDir,
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			parsers: { '.yaml': () => ({ general: { hello: 'Custom YAML' } }) },
+		})
+
+		expect(i18xs.t('general.hello')).toBe('Custom YAML')
+	})
+
+	it('Should skip keys reaching the object prototype in YAML, JSON5 and properties files', async () => {
+		const localesDir = mkdtempSync(`${tmpdir()}/i18xs-formats-`)
+		mkdirSync(`${localesDir}/en`)
+		writeFileSync(`${localesDir}/en/general.properties`, '__proto__.polluted = Yes\nconstructor.prototype.polluted = Yes\nhello = Hello')
+		writeFileSync(`${localesDir}/en/common.yaml`, '__proto__:\n  polluted: Yes\nsave: Save')
+		writeFileSync(`${localesDir}/en/legacy.json5`, '{ __proto__: { polluted: \'Yes\' }, title: \'Title\' }')
+
+		try {
+			const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+			expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+			expect(i18xs.t('hello')).toBe('Hello')
+			expect(i18xs.t('save')).toBe('Save')
+			expect(i18xs.t('title')).toBe('Title')
+			expect(i18xs.t('polluted')).toBe('polluted')
+		} finally {
+			rmSync(localesDir, { recursive: true, force: true })
+		}
+	})
+})
+
+describe('I18XS Gettext Catalogs', () => {
+	const gettextDir = `${process.cwd()}/src/tests/data/gettext`
+	const encoder = new TextEncoder()
+
+	// Builds a little endian MO catalog from [msgid, msgstr] pairs, sorted like msgfmt does
+	const buildMo = (messages: [string, string][]): Uint8Array => {
+		const sorted = [...messages].sort(([a], [b]) => (a < b ? -1 : 1))
+		const strings = sorted.flatMap(([original, translation]) => [encoder.encode(original), encoder.encode(translation)])
+		const tablesEnd = 28 + sorted.length * 16
+		const size = strings.reduce((total, bytes) => total + bytes.length + 1, tablesEnd)
+		const data = new Uint8Array(size)
+		const view = new DataView(data.buffer)
+		let offset = tablesEnd
+
+		view.setUint32(0, 0x950412de, true)
+		view.setUint32(8, sorted.length, true)
+		view.setUint32(12, 28, true)
+		view.setUint32(16, 28 + sorted.length * 8, true)
+
+		strings.forEach((bytes, index) => {
+			const table = index % 2 ? 28 + sorted.length * 8 : 28
+			const entry = table + Math.floor(index / 2) * 8
+			view.setUint32(entry, bytes.length, true)
+			view.setUint32(entry + 4, offset, true)
+			data.set(bytes, offset)
+			offset += bytes.length + 1
+		})
+
+		return data
+	}
+
+	it('Should preload PO files with contexts, plurals and multi-line strings', async () => {
+		const i18xs = new I18XS({ localesDir: gettextDir, currentLocale: 'fr', supportedLocales: ['fr'] })
+
+		expect(i18xs.t('cart.title')).toBe('Votre panier')
+		expect(i18xs.t('cart.items', { count: 0 })).toBe('0 article')
+		expect(i18xs.t('cart.items', { count: 2 })).toBe('2 articles')
+		expect(i18xs.t('cart.notice')).toBe('Ligne un\nLigne deux')
+		expect(i18xs.t('Save')).toBe('Enregistrer "maintenant"')
+	})
+
+	it('Should skip fuzzy, untranslated and obsolete PO entries', async () => {
+		const i18xs = new I18XS({ localesDir: gettextDir, currentLocale: 'fr', supportedLocales: ['fr'] })
+
+		expect(i18xs.hasIdentifier('cart.checkout')).toBe(false)
+		expect(i18xs.hasIdentifier('cart.empty')).toBe(false)
+		expect(i18xs.hasIdentifier('cart.old')).toBe(false)
+	})
+
+	it('Should map gettext plural forms onto CLDR categories', async () => {
+		const i18xs = new I18XS({ currentLocale: 'ru', supportedLocales: ['ru'], localizations: {} })
+
+		i18xs.importGettext(
+			'ru',
+			[
+				'msgid ""',
+				'msgstr "Plural-Forms: nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"',
+				'',
+				'msgctxt "files"',
+				'msgid "{count} file"',
+				'msgid_plural "{count} files"',
+				'msgstr[0] "{count} файл"',
+				'msgstr[1] "{count} файла"',
+				'msgstr[2] "{count} файлов"',
+			].join('\n')
+		)
+
+		expect(i18xs.t('files', { count: 21 })).toBe('21 файл')
+		expect(i18xs.t('files', { count: 3 })).toBe('3 файла')
+		expect(i18xs.t('files', { count: 11 })).toBe('11 файлов')
+		expect(i18xs.t('files', { count: 1.5 })).toBe('1.5 файлов')
+	})
+
+	it('Should import MO catalogs', async () => {
+		const i18xs = new I18XS({ currentLocale: 'de', supportedLocales: ['de'], localizations: {} })
+
+		i18xs.importGettext(
+			'de',
+			buildMo([
+				['', 'Language: de\nPlural-Forms: nplurals=2; plural=(n != 1);\n'],
+				['menu.open\u0004Open', 'Öffnen'],
+				['menu.files\u0004{count} file\u0000{count} files', '{count} Datei\u0000{count} Dateien'],
+				['Close', 'Schließen'],
+			])
+		)
+
+		expect(i18xs.t('menu.open')).toBe('Öffnen')
+		expect(i18xs.t('menu.files', { count: 1 })).toBe('1 Datei')
+		expect(i18xs.t('menu.files', { count: 4 })).toBe('4 Dateien')
+		expect(i18xs.t('Close')).toBe('Schließen')
+	})
+
+	it('Should log and skip invalid catalogs', async () => {
+		const i18xs = new I18XS({ currentLocale: 'de', supportedLocales: ['de'], localizations: {} })
+
+		expect(i18xs.importGettext('de', 'not a catalog')).toBe(i18xs)
+		expect(i18xs.importGettext('de', new Uint8Array([1, 2, 3]))).toBe(i18xs)
+		expect(i18xs.hasIdentifier('not a catalog')).toBe(false)
+	})
+
+	it('Should skip entries whose key reaches the object prototype', async () => {
+		const i18xs = new I18XS({ currentLocale: 'de', supportedLocales: ['de'], localizations: {} })
+
+		i18xs.importGettext(
+			'de',
+			[
+				'msgctxt "__proto__.polluted"\nmsgid "Yes"\nmsgstr "Ja"',
+				'msgctxt "__proto__"\nmsgid "{count} item"\nmsgid_plural "{count} items"\nmsgstr[0] "Ja"\nmsgstr[1] "Ja"',
+				'msgid "__proto__"\nmsgid_plural "__proto__"\nmsgstr[0] "Ja"\nmsgstr[1] "Ja"',
+				'msgctxt "menu.open"\nmsgid "Open"\nmsgstr "Öffnen"',
+			].join('\n\n')
+		)
+
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+		expect(i18xs.t('menu.open')).toBe('Öffnen')
+	})
+
+	it('Should round-trip the markers of ordinal and select objects through PO catalogs', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'fr'],
+			localizations: {
+				en: {
+					g: {
+						rank: { __type__: 'ordinal', one: '{count}st', two: '{count}nd', few: '{count}rd', other: '{count}th' },
+						reply: { __type__: 'select', male: 'He replied', female: 'She replied', other: 'They replied' },
+					},
+				},
+				fr: {
+					g: {
+						rank: { __type__: 'ordinal', one: '{count}er', other: '{count}e' },
+						reply: { __type__: 'select', male: 'Il a répondu', female: 'Elle a répondu', other: 'Réponse' },
+					},
+				},
+			},
+		})
+
+		const catalog = i18xs.exportGettext('fr')
+
+		expect(catalog).not.toContain('msgctxt "g.rank.__type__"')
+		expect(catalog).not.toContain('msgctxt "g.reply.__type__"')
+		expect(catalog).toContain('#. __type__: ordinal\nmsgctxt "g.rank.one"\nmsgid "{count}st"\nmsgstr "{count}er"')
+		expect(catalog).toContain('#. __type__: select\nmsgctxt "g.reply.female"\nmsgid "She replied"')
+
+		const imported = new I18XS({ currentLocale: 'fr', supportedLocales: ['fr'], localizations: {} })
+		imported.importGettext('fr', catalog)
+
+		expect(imported.t('g.rank', { count: 1 })).toBe('1er')
+		expect(imported.t('g.rank', { count: 2 })).toBe('2e')
+		expect(imported.t('g.reply', { gender: 'female' })).toBe('Elle a répondu')
+		expect(imported.t('g.reply', { gender: 'x' })).toBe('Réponse')
+	})
+
+	it('Should export a locale to PO with source texts and plural forms', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localizations: {
+				en: { cart: { title: 'Cart', items: { one: 'One item', other: '{count} items' }, empty: 'Empty' } },
+				ar: { cart: { title: 'السلة', items: { zero: 'لا عناصر', one: 'عنصر واحد', other: '{count} عنصر' } } },
+			},
+		})
+
+		const catalog = i18xs.exportGettext('ar')
+
+		expect(catalog).toContain('"Language: ar\\n"')
+		expect(catalog).toContain('msgctxt "cart.title"\nmsgid "Cart"\nmsgstr "السلة"')
+		expect(catalog).toContain('msgctxt "cart.empty"\nmsgid "Empty"\nmsgstr ""')
+		expect(catalog).toContain(
+			'msgctxt "cart.items"\nmsgid "One item"\nmsgid_plural "{count} items"\nmsgstr[0] "لا عناصر"\nmsgstr[1] "عنصر واحد"\nmsgstr[2] "{count} عنصر"'
+		)
+
+		const imported = new I18XS({ currentLocale: 'ar', supportedLocales: ['ar'], localizations: {} })
+		imported.importGettext('ar', catalog)
+
+		expect(imported.t('cart.title')).toBe('السلة')
+		expect(imported.t('cart.items', { count: 0 })).toBe('لا عناصر')
+		expect(imported.t('cart.items', { count: 5 })).toBe('5 عنصر')
+	})
+
+	it('Should export untranslated POT templates', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en'],
+			localizations: { en: { cart: { title: 'Cart', items: { one: 'One item', other: '{count} items' } } } },
+		})
+
+		const template = i18xs.exportGettext('en', { template: true })
+
+		expect(template).toContain('"Plural-Forms: nplurals=INTEGER; plural=EXPRESSION;\\n"')
+		expect(template).toContain('msgctxt "cart.title"\nmsgid "Cart"\nmsgstr ""')
+		expect(template).toContain('msgid_plural "{count} items"\nmsgstr[0] ""\nmsgstr[1] ""')
+	})
+})
+
+describe('I18XS XLIFF Documents', () => {
+	const createI18XS = () =>
+		new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localizations: {
+				en: {
+					cart: {
+						title: 'Cart of {name}',
+						empty: 'Your cart is empty',
+						items: { one: 'One item', other: '{count} items' },
+						rank: { __type__: 'ordinal', one: '{count}st', two: '{count}nd', few: '{count}rd', other: '{count}th' },
+					},
+				},
+				ar: { cart: { title: 'سلة {name}', items: { one: 'عنصر واحد', other: '{count} عنصر' } } },
+			},
+		})
+
+	it('Should export XLIFF 1.2 units with placeholders, states and notes', async () => {
+		const document = createI18XS().exportXliff('ar', { notes: { 'cart.title': 'Page title' } })
+
+		expect(document).toContain('<file source-language="en" target-language="ar" datatype="plaintext" original="i18xs">')
+		expect(document).toContain(
+			'<trans-unit id="cart.title">\n\t\t\t\t<source>Cart of <x id="1" equiv-text="{name}"/></source>\n\t\t\t\t<target state="translated">سلة <x id="1" equiv-text="{name}"/></target>\n\t\t\t\t<note>Page title</note>'
+		)
+		expect(document).toContain(
+			'<trans-unit id="cart.empty">\n\t\t\t\t<source>Your cart is empty</source>\n\t\t\t\t<target state="needs-translation"/>'
+		)
+		expect(document).toContain('<trans-unit id="cart.items.few">')
+		expect(document).toContain('<note>Plural form: few</note>')
+		expect(document).toContain('<trans-unit id="cart.rank.__type__" translate="no">')
+	})
+
+	it('Should export XLIFF 2.0 units with segments', async () => {
+		const document = createI18XS().exportXliff('ar', { version: '2.0', notes: { 'cart.title': 'Page title' } })
+
+		expect(document).toContain('<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="ar">')
+		expect(document).toContain(
+			'<unit id="cart.title">\n\t\t\t<notes>\n\t\t\t\t<note>Page title</note>\n\t\t\t</notes>\n\t\t\t<segment state="translated">'
+		)
+		expect(document).toContain('<target>سلة <ph id="1" equiv="{name}" disp="{name}"/></target>')
+		expect(document).toContain(
+			'<unit id="cart.empty">\n\t\t\t<segment state="initial">\n\t\t\t\t<source>Your cart is empty</source>\n\t\t\t</segment>'
+		)
+	})
+
+	it('Should import translated XLIFF 1.2 documents back into the localizations', async () => {
+		const i18xs = createI18XS()
+		const document = i18xs
+			.exportXliff('ar')
+			.replace('<target state="needs-translation"/>', '<target state="translated">سلتك فارغة</target>')
+			.replace(
+				/(<trans-unit id="cart\.items\.few">[\s\S]*?)<target state="needs-translation"\/>/,
+				'$1<target state="translated"><x id="1" equiv-text="{count}"/> عناصر</target>'
+			)
+
+		i18xs.importXliff(document).changeCurrentLocale('ar')
+
+		expect(i18xs.t('cart.title', { name: 'Ali' })).toBe('سلة Ali')
+		expect(i18xs.t('cart.empty')).toBe('سلتك فارغة')
+		expect(i18xs.t('cart.items', { count: 3 })).toBe('3 عناصر')
+		expect(i18xs.t('cart.items', { count: 1 })).toBe('عنصر واحد')
+	})
+
+	it('Should import XLIFF 2.0 documents with segments and markers', async () => {
+		const i18xs = createI18XS()
+		const document = [
+			'<?xml version="1.0" encoding="UTF-8"?>',
+			'<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="ar">',
+			'<file id="i18xs">',
+			'<unit id="cart.empty"><segment><source>Your cart</source><target>سلتك</target></segment>',
+			'<ignorable><source> </source><target> </target></ignorable>',
+			'<segment><source>is empty</source><target>فارغة</target></segment></unit>',
+			'<unit id="cart.rank.__type__" translate="no"><segment state="final"><source>ordinal</source><target>ordinal</target></segment></unit>',
+			'<unit id="cart.rank.other"><segment><source><ph id="1" equiv="{count}"/>th</source><target>الـ<ph id="1" equiv="{count}"/></target></segment></unit>',
+			'<unit id="cart.rank.one"><segment state="initial"><source><ph id="1" equiv="{count}"/>st</source></segment></unit>',
+			'</file>',
+			'</xliff>',
+		].join('\n')
+
+		i18xs.importXliff(document).changeCurrentLocale('ar')
+
+		expect(i18xs.t('cart.empty')).toBe('سلتك فارغة')
+		expect(i18xs.t('cart.rank', { count: 2 })).toBe('الـ2')
+		expect(i18xs.t('cart.title', { name: 'Ali' })).toBe('سلة Ali')
+	})
+
+	it('Should log and skip invalid XLIFF documents', async () => {
+		const i18xs = createI18XS()
+
+		expect(i18xs.importXliff('<xliff><file>')).toBe(i18xs)
+		expect(i18xs.importXliff('<resources/>', 'ar')).toBe(i18xs)
+		expect(i18xs.importXliff('<xliff version="1.2"><file><body/></file></xliff>')).toBe(i18xs)
+	})
+
+	it('Should skip units whose id reaches the object prototype', async () => {
+		const i18xs = createI18XS()
+		const document = [
+			'<xliff version="2.0" srcLang="en" trgLang="ar"><file id="i18xs">',
+			'<unit id="__proto__.polluted"><segment><source>Yes</source><target>نعم</target></segment></unit>',
+			'<unit id="constructor.prototype.polluted"><segment><source>Yes</source><target>نعم</target></segment></unit>',
+			'<unit id="cart.empty"><segment><source>Empty</source><target>فارغة</target></segment></unit>',
+			'</file></xliff>',
+		].join('\n')
+
+		i18xs.importXliff(document).changeCurrentLocale('ar')
+
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+		expect(i18xs.t('cart.empty')).toBe('فارغة')
+	})
+
+	it('Should export groups with an other key as groups rather than plural forms', async () => {
+		const i18xs = new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localizations: { en: { settings: { title: 'Settings', other: 'Other settings' } } },
+		})
+		const document = i18xs.exportXliff('ar')
+
+		expect(document).toContain('<trans-unit id="settings.title">')
+		expect(document).toContain('<trans-unit id="settings.other">')
+		expect(document).not.toContain('settings.few')
+		expect(document).not.toContain('Plural form')
+	})
+})
+
+describe('I18XS Mobile String Resources', () => {
+	const localization = {
+		cart: {
+			title: 'Cart of {name}',
+			discount: 'It\'s 50% off for "{name}"',
+			items: { one: 'One item in {cart}', other: '{count} items in {cart}' },
+		},
+	}
+
+	it('Should convert to and from Flutter ARB files', async () => {
+		const arb = stringifyArb(localization, { locale: 'en', keySeparator: '_' })
+		const resources = JSON.parse(arb)
+
+		expect(resources['@@locale']).toBe('en')
+		expect(resources.cart_title).toBe('Cart of {name}')
+		expect(resources['@cart_title']).toEqual({ placeholders: { name: { type: 'String' } } })
+		expect(resources.cart_items).toBe('{count, plural, one{One item in {cart}} other{{count} items in {cart}}}')
+		expect(resources['@cart_items'].placeholders).toEqual({ count: { type: 'num' }, cart: { type: 'String' } })
+		expect(parseArb(arb, { keySeparator: '_' })).toEqual(localization)
+	})
+
+	it('Should parse ARB plurals with the # shorthand and keep other ICU messages', async () => {
+		const arb = JSON.stringify({
+			'@@locale': 'en',
+			'rank': '{count, selectordinal, one{#st} two{#nd} few{#rd} other{#th}}',
+			'greeting': '{gender, select, male{He} other{They}} said hi',
+			'@greeting': { description: 'Greeting' },
+		})
+
+		expect(parseArb(arb)).toEqual({
+			rank: { __type__: 'ordinal', one: '{count}st', two: '{count}nd', few: '{count}rd', other: '{count}th' },
+			greeting: '{gender, select, male{He} other{They}} said hi',
+		})
+	})
+
+	it('Should convert to and from Android strings.xml files', async () => {
+		const xml = stringifyAndroidStrings(localization, { keySeparator: '_' })
+
+		expect(xml).toContain('<string name="cart_title">Cart of <xliff:g id="name">%1$s</xliff:g></string>')
+		expect(xml).toContain(
+			'<string name="cart_discount">It\\\'s 50%% off for \\&quot;<xliff:g id="name">%1$s</xliff:g>\\&quot;</string>'
+		)
+		expect(xml).toContain(
+			'<item quantity="other"><xliff:g id="count">%1$d</xliff:g> items in <xliff:g id="cart">%2$s</xliff:g></item>'
+		)
+		expect(parseAndroidStrings(xml, { keySeparator: '_' })).toEqual(localization)
+	})
+
+	it('Should name unannotated Android placeholders and resolve escapes', async () => {
+		const xml = [
+			'<resources>',
+			'\t<string name="welcome">Hello %1$s,\n\t  you have %2$d\\nmessages</string>',
+			'\t<string name="quoted">"  Spaced   out  " \\@home</string>',
+			'\t<plurals name="songs"><item quantity="one">%d song by %s</item><item quantity="other">%d songs</item></plurals>',
+			'\t<string-array name="ignored"><item>A</item></string-array>',
+			'</resources>',
+		].join('\n')
+
+		expect(parseAndroidStrings(xml)).toEqual({
+			welcome: 'Hello {arg1}, you have {arg2}\nmessages',
+			quoted: '  Spaced   out   @home',
+			songs: { one: '{count} song by {arg2}', other: '{count} songs' },
+		})
+	})
+
+	it('Should convert to and from iOS .strings files', async () => {
+		const strings = stringifyAppleStrings(localization)
+
+		expect(strings).toContain('/* {name} = %1$@ */\n"cart.title" = "Cart of %1$@";')
+		expect(strings).toContain('"cart.discount" = "It\'s 50%% off for \\"%1$@\\"";')
+		expect(strings).not.toContain('cart.items')
+		expect(parseAppleStrings(strings)).toEqual({ cart: { title: localization.cart.title, discount: localization.cart.discount } })
+		expect(parseAppleStrings('// Unnamed\n"welcome" = "Hello %@, you have %d messages";\nplain = "Line\\none";')).toEqual({
+			welcome: 'Hello {arg1}, you have {arg2} messages',
+			plain: 'Line\none',
+		})
+	})
+
+	it('Should convert to and from iOS .stringsdict files', async () => {
+		const plist = stringifyStringsDict(localization)
+
+		expect(plist).toContain('<key>cart.items</key>')
+		expect(plist).toContain('<string>%#@count@</string>')
+		expect(plist).toContain('<key>other</key>\n\t\t\t<string>%1$ld items in %2$@</string>')
+		expect(plist).not.toContain('cart.title')
+		expect(parseStringsDict(plist)).toEqual({
+			cart: { items: { one: 'One item in {arg2}', other: '{count} items in {arg2}' } },
+		})
+	})
+
+	it('Should skip ordinal plural objects in .stringsdict and Android resources with a warning', async () => {
+		const warn = spyOn(console, 'warn').mockImplementation(() => {})
+		const ranked = {
+			cart: {
+				...localization.cart,
+				rank: { __type__: 'ordinal', one: '{count}st', two: '{count}nd', few: '{count}rd', other: '{count}th' },
+			},
+		}
+
+		try {
+			const plist = stringifyStringsDict(ranked)
+			const resources = stringifyAndroidStrings(ranked)
+
+			expect(plist).toContain('<key>cart.items</key>')
+			expect(plist).not.toContain('cart.rank')
+			expect(resources).toContain('<plurals name="cart.items">')
+			expect(resources).not.toContain('cart.rank')
+			expect(warn).toHaveBeenCalledTimes(2)
+		} finally {
+			warn.mockRestore()
+		}
+	})
+
+	it('Should preload ARB and .strings locale files', async () => {
+		const localesDir = mkdtempSync(`${tmpdir()}/i18xs-mobile-`)
+		mkdirSync(`${localesDir}/en`)
+		writeFileSync(`${localesDir}/en/app.arb`, stringifyArb({ app: { title: 'My app' } }, { locale: 'en' }))
+		writeFileSync(`${localesDir}/en/ios.strings`, stringifyAppleStrings({ ios: { greeting: 'Hello {name}' } }))
+
+		const i18xs = new I18XS({ localesDir, currentLocale: 'en', supportedLocales: ['en'] })
+
+		expect(i18xs.t('app.title')).toBe('My app')
+		expect(i18xs.t('ios.greeting', { name: 'Ali' })).toBe('Hello Ali')
+
+		rmSync(localesDir, { recursive: true, force: true })
+	})
+
+	it('Should skip keys reaching the object prototype', async () => {
+		const pluralRule = '<dict><key>one</key><string>%d item</string><key>other</key><string>%d items</string></dict>'
+		const plist = [
+			'<plist version="1.0"><dict>',
+			'<key>__proto__.polluted</key>',
+			`<dict><key>NSStringLocalizedFormatKey</key><string>%#@count@</string><key>count</key>${pluralRule}</dict>`,
+			'<key>__proto__</key>',
+			`<dict><key>NSStringLocalizedFormatKey</key><string>%#@count@</string><key>count</key>${pluralRule}</dict>`,
+			'</dict></plist>',
+		].join('\n')
+
+		expect(parseArb('{ "__proto__.polluted": "Yes", "constructor.prototype.polluted": "Yes", "title": "Title" }')).toEqual({
+			title: 'Title',
+		})
+		expect(
+			parseAndroidStrings(
+				[
+					'<resources>',
+					'<string name="__proto__.polluted">Yes</string>',
+					'<plurals name="items"><item quantity="__proto__">Yes</item><item quantity="other">%d items</item></plurals>',
+					'</resources>',
+				].join('')
+			)
+		).toEqual({ items: { other: '{count} items' } })
+		expect(parseAppleStrings('"__proto__.polluted" = "Yes";\n"title" = "Title";')).toEqual({ title: 'Title' })
+		expect(parseStringsDict(plist)).toEqual({})
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+	})
+})
+
+describe('I18XS CSV Spreadsheets', () => {
+	const createI18XS = () =>
+		new I18XS({
+			currentLocale: 'en',
+			supportedLocales: ['en', 'ar'],
+			localizations: {
+				en: {
+					cart: {
+						title: 'Cart of {name}',
+						empty: 'Your cart is empty, "{name}"',
+						items: { one: 'One item', other: '{count} items' },
+						rank: { __type__: 'ordinal', one: '{count}st', two: '{count}nd', few: '{count}rd', other: '{count}th' },
+					},
+				},
+				ar: { cart: { title: 'سلة {name}', items: { zero: 'لا عناصر', one: 'عنصر واحد', other: '{count} عنصر' } } },
+			},
+		})
+
+	it('Should export one row per key path and plural form with a column per locale', async () => {
+		expect(createI18XS().exportCsv().split('\n')).toEqual([
+			'key,en,ar',
+			'cart.title,Cart of {name},سلة {name}',
+			'cart.empty,"Your cart is empty, ""{name}""",',
+			'cart.items.one,One item,عنصر واحد',
+			'cart.items.other,{count} items,{count} عنصر',
+			'cart.items.zero,,لا عناصر',
+			'cart.rank.__type__,ordinal,',
+			'cart.rank.one,{count}st,',
+			'cart.rank.two,{count}nd,',
+			'cart.rank.few,{count}rd,',
+			'cart.rank.other,{count}th,',
+			'',
+		])
+	})
+
+	it('Should export TSV spreadsheets', async () => {
+		const document = createI18XS().exportCsv({ delimiter: '\t' })
+
+		expect(document).toStartWith('key\ten\tar\ncart.title\tCart of {name}\tسلة {name}\n')
+		expect(document).toContain('cart.empty\t"Your cart is empty, ""{name}"""\t\n')
+	})
+
+	it('Should import edited spreadsheets and report empty cells as missing', async () => {
+		const i18xs = createI18XS()
+		const document = i18xs
+			.exportCsv()
+			.replace('cart.title,Cart of {name},', 'cart.title,Basket of {name},')
+			.replace('cart.rank.one,{count}st,', 'cart.rank.one,{count}st,{count} الأول')
+			.replace('cart.rank.other,{count}th,', 'cart.rank.other,{count}th,"الـ{count}, بالترتيب"')
+
+		expect(i18xs.importCsv(document)).toEqual({ ar: ['cart.empty', 'cart.rank.two', 'cart.rank.few'] })
+		expect(i18xs.t('cart.title', { name: 'Ali' })).toBe('Basket of Ali')
+
+		i18xs.changeCurrentLocale('ar')
+		// The ordinal marker is copied from the English column, and Arabic ordinals only use the other form
+		expect(i18xs.t('cart.rank', { count: 1 })).toBe('الـ1, بالترتيب')
+		expect(i18xs.t('cart.items', { count: 0 })).toBe('لا عناصر')
+	})
+
+	it('Should import TSV spreadsheets into new locales', async () => {
+		const i18xs = new I18XS({ currentLocale: 'en', supportedLocales: ['en', 'fr'] })
+		const missing = i18xs.importCsv('\uFEFFkey\tfr\r\ncart.title\tPanier de {name}\r\ncart.empty\t\r\n\r\n', {
+			delimiter: '\t',
+		})
+
+		expect(missing).toEqual({ fr: ['cart.empty'] })
+		expect(i18xs.changeCurrentLocale('fr').t('cart.title', { name: 'Ali' })).toBe('Panier de Ali')
+	})
+
+	it('Should ignore malformed spreadsheets', async () => {
+		const i18xs = createI18XS()
+
+		expect(i18xs.importCsv('key,en\ncart.title,"Unterminated')).toEqual({})
+		expect(i18xs.importCsv('key\ncart.title')).toEqual({})
+		expect(i18xs.t('cart.title', { name: 'Ali' })).toBe('Cart of Ali')
+	})
+
+	it('Should skip rows whose key reaches the object prototype', async () => {
+		const i18xs = new I18XS({ currentLocale: 'fr', supportedLocales: ['en', 'fr'] })
+		const missing = i18xs.importCsv(
+			[
+				'key,en,fr',
+				'__proto__.polluted,Yes,Oui',
+				'constructor.prototype.polluted,Yes,',
+				'cart.__proto__,Yes,',
+				'cart.title,Cart,Panier',
+			].join('\n')
+		)
+
+		expect(missing).toEqual({})
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+		expect(i18xs.t('cart.title')).toBe('Panier')
+	})
+})
@@ -0,0 +1,6 @@
+import { Localization } from './Localization'
+
+export interface Backend {
+	read(locale: string, namespace: string): Promise<Localization | undefined>
+	listNamespaces?(locale: string): Promise<string[]>
+}
@@ -1,9 +1,14 @@
+import { Backend } from './Backend'
 import { Localization } from './Localization'
+import { LocalizationParser } from './LocalizationParser'
+import { MergeStrategy } from './MergeStrategy'
+import { ValueFormatter } from './ValueFormatter'
 
 export interface Config {
 	supportedLocales?: string[]
 	currentLocale?: string
 	fallbackLocale?: string
+	fallbackLocales?: Record<string, string[]>
 	useFallbackLocale?: boolean
 	showMissingIdentifierMessage?: boolean
 	missingIdentifierMessage?: string
@@ -13,4 +18,18 @@ export interface Config {
 	showLogs?: boolean
 	localizations?: Record<string, Record<string, Localization>>
 	preloadLocalizations?: boolean
+	parsers?: Record<string, LocalizationParser>
+	mergeStrategy?: MergeStrategy
+	strictNamespaces?: boolean
+	backend?: Backend
+	namespaces?: string[]
+	watch?: boolean
+	watchDebounce?: number
+	selectorKey?: string
+	timeZone?: string
+	formatterCacheSize?: number
+	interpolationDelimiters?: [string, string]
+	formatters?: Record<string, ValueFormatter>
+	escapeValues?: boolean
+	reportResolvedLocales?: boolean
 }
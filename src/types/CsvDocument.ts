@@ -0,0 +1,6 @@
+import { Localization } from './Localization'
+
+export type CsvDocument = {
+	localizations: Record<string, Localization>
+	missing: Record<string, string[]>
+}
@@ -0,0 +1,3 @@
+export type CsvOptions = {
+	delimiter?: string
+}
@@ -0,0 +1,9 @@
+export type Duration = {
+	years?: number
+	months?: number
+	weeks?: number
+	days?: number
+	hours?: number
+	minutes?: number
+	seconds?: number
+}
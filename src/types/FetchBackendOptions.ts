@@ -0,0 +1,10 @@
+export type FetchBackendOptions = {
+	baseUrl?: string
+	loadPath?: string
+	requestInit?: RequestInit
+	fetch?: typeof fetch
+	timeout?: number
+	retries?: number
+	retryDelay?: number
+	namespacesPath?: string
+}
@@ -0,0 +1,8 @@
+import { LocalizationParser } from './LocalizationParser'
+
+export type FileSystemBackendOptions = {
+	localesDir?: string
+	featuresDir?: string
+	loadPath?: string
+	parsers?: Record<string, LocalizationParser>
+}
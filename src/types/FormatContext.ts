@@ -0,0 +1,5 @@
+export type FormatContext = {
+	linkChain: string[]
+	escapeValues?: boolean
+	transformArgument?: (value: string) => string
+}
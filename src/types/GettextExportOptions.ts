@@ -0,0 +1,5 @@
+export type GettextExportOptions = {
+	sourceLocale?: string
+	template?: boolean
+	pluralForms?: string
+}
@@ -0,0 +1,5 @@
+export type LocalizationChangeEvent = {
+	locale: string
+	namespace: string
+	filePath: string
+}
@@ -0,0 +1,3 @@
+import { Localization } from './Localization'
+
+export type LocalizationParser = (content: string) => Localization
@@ -0,0 +1,6 @@
+export type MergeConflict = {
+	locale: string
+	path: string
+	winner: string
+	loser: string
+}
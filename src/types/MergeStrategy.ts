@@ -0,0 +1 @@
+export type MergeStrategy = 'deep' | 'shallow' | 'error'
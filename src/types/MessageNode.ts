@@ -0,0 +1,7 @@
+export type MessageNode =
+	| { type: 'text'; value: string }
+	| { type: 'argument'; name: string; formatters?: string[] }
+	| { type: 'pound' }
+	| { type: 'format'; name: string; format: string; style?: string; formatters?: string[] }
+	| { type: 'plural'; name: string; ordinal: boolean; offset: number; options: Record<string, MessageNode[]> }
+	| { type: 'select'; name: string; options: Record<string, MessageNode[]> }
@@ -0,0 +1,3 @@
+export type MessageOptions = {
+	escapeValues?: boolean
+}
@@ -0,0 +1 @@
+export type MessagePart<T = never> = string | T | { type: 'tag'; name: string; children: MessagePart<T>[] }
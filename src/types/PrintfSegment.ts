@@ -0,0 +1 @@
+export type PrintfSegment = string | { name: string; conversion: string }
@@ -0,0 +1,4 @@
+export type RelativeTimeOptions = Intl.RelativeTimeFormatOptions & {
+	unit?: Intl.RelativeTimeFormatUnit
+	now?: Date | number
+}
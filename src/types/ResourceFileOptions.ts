@@ -0,0 +1,4 @@
+export type ResourceFileOptions = {
+	locale?: string
+	keySeparator?: string
+}
@@ -0,0 +1,3 @@
+import { MessagePart } from './MessagePart'
+
+export type TagRenderer<T> = (children: MessagePart<T>[], name: string) => T
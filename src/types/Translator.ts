@@ -0,0 +1,4 @@
+import { LocalizationData } from './LocalizationData'
+import { MessageOptions } from './MessageOptions'
+
+export type Translator = (identifier: string, data?: LocalizationData, options?: MessageOptions) => string
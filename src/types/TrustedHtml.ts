@@ -0,0 +1,3 @@
+export type TrustedHtml = {
+	__html__: string
+}
@@ -0,0 +1 @@
+export type ValueFormatter = (value: unknown, locale: string, ...args: string[]) => unknown
@@ -0,0 +1,8 @@
+import { Localization } from './Localization'
+
+export type XliffDocument = {
+	version: string
+	sourceLocale?: string
+	targetLocale?: string
+	localization: Localization
+}
@@ -0,0 +1,5 @@
+export type XliffExportOptions = {
+	sourceLocale?: string
+	version?: '1.2' | '2.0'
+	notes?: Record<string, string>
+}
@@ -0,0 +1,5 @@
+export type XmlElement = {
+	name: string
+	attributes: Record<string, string>
+	children: (XmlElement | string)[]
+}